@@ -0,0 +1,45 @@
+import { auth } from "@clerk/nextjs/server";
+import { isAdmin } from "@/lib/admin";
+import { getTestCatalog } from "@/lib/test-catalog-store";
+import TestCatalogManager from "@/components/admin/TestCatalogManager";
+
+export default async function AdminTestsPage() {
+  const { userId } = await auth();
+
+  if (!isAdmin(userId)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <h1 className="text-xl font-semibold text-gray-900">
+            Admin access required
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Your account cannot manage the test catalog.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const tests = await getTestCatalog({ includeInactive: true });
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden mb-6">
+          <div className="bg-gradient-to-r from-purple-400 to-pink-400 text-white p-6">
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              🧾 Test Catalog
+            </h1>
+            <p className="text-purple-100 mt-2">
+              Add, price and retire the medical tests patients can book
+            </p>
+          </div>
+        </div>
+
+        <TestCatalogManager initialTests={tests} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { isClinician } from "@/lib/admin";
+import { acknowledgeAlert } from "@/lib/alerts";
+
+// Acknowledge an alert from the doctor dashboard, clearing it from the list
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Authentication required", code: "UNAUTHENTICATED" },
+        { status: 401 }
+      );
+    }
+
+    // Alerts stay open until a clinician has seen them
+    if (!isClinician(userId)) {
+      return NextResponse.json(
+        { error: "Clinician access required", code: "FORBIDDEN" },
+        { status: 403 }
+      );
+    }
+
+    const acknowledged = await acknowledgeAlert(id, userId);
+    if (!acknowledged) {
+      return NextResponse.json(
+        { error: "Alert not found or already acknowledged" },
+        { status: 404 }
+      );
+    }
+
+    console.log(`✅ Alert ${id} acknowledged by ${userId}`);
+    return NextResponse.json({ id, acknowledged: true });
+  } catch (error) {
+    console.error("Error acknowledging alert:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to acknowledge alert",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
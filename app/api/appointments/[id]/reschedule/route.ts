@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+import { APIError } from "@/lib/api-utils";
+import {
+  findAvailableSlot,
+  rescheduleAppointment,
+  suggestAlternativeSlots,
+} from "@/lib/availability";
+import { sendAppointmentRescheduled } from "@/lib/email";
+
+interface RescheduleRequest {
+  slotStart: string; // ISO start of an open slot from /api/availability/slots
+  providerId?: string;
+}
+
+// Dates are shown in the location's time zone, not the server's
+const formatAppointmentDate = (date: string, timeZone: string) =>
+  new Date(date).toLocaleDateString("en-US", {
+    timeZone,
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+// Move the signed-in patient's appointment to another open slot
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  console.log(`🔁 Reschedule requested for appointment ${id}`);
+
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Authentication required", code: "UNAUTHENTICATED" },
+        { status: 401 }
+      );
+    }
+
+    const { slotStart, providerId }: RescheduleRequest = await request.json();
+
+    if (!slotStart) {
+      return NextResponse.json(
+        { error: "Missing required field: slotStart" },
+        { status: 400 }
+      );
+    }
+
+    const slot = await findAvailableSlot(slotStart, providerId);
+    if (!slot) {
+      return NextResponse.json(
+        {
+          error: "That time is no longer available.",
+          code: "SLOT_UNAVAILABLE",
+          alternatives: await suggestAlternativeSlots(slotStart, {
+            providerId,
+            userId,
+          }),
+        },
+        { status: 409 }
+      );
+    }
+
+    let appointment;
+    try {
+      appointment = await rescheduleAppointment({
+        appointmentId: id,
+        userId,
+        slot,
+      });
+    } catch (error) {
+      if (!(error instanceof APIError)) throw error;
+
+      // Only slot conflicts can be solved by picking another time
+      const slotConflict =
+        error.code === "SLOT_FULL" || error.code === "PATIENT_OVERLAP";
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: error.code,
+          ...(slotConflict && {
+            alternatives: await suggestAlternativeSlots(slot.start, {
+              providerId: slot.providerId,
+              userId,
+            }),
+          }),
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.log("✅ Appointment rescheduled:", appointment);
+
+    // Send the updated confirmation; a failed email doesn't undo the move
+    try {
+      const supabase = createSupabaseServerClient();
+
+      const { data: previous } = await supabase
+        .from("appointment_reschedules")
+        .select("previous_date, previous_time")
+        .eq("appointment_id", id)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { data: user } = await supabase
+        .from("users")
+        .select("first_name, email")
+        .eq("clerk_user_id", userId)
+        .maybeSingle();
+
+      if (!user?.email || !previous) {
+        console.warn(`⚠️ Reschedule email not sent for appointment ${id}`);
+      } else {
+        const { success } = await sendAppointmentRescheduled({
+          to: user.email,
+          name: user.first_name || "there",
+          date: formatAppointmentDate(
+            appointment.appointment_date,
+            slot.timezone
+          ),
+          time: appointment.appointment_time,
+          location: appointment.location,
+          previousDate: formatAppointmentDate(
+            previous.previous_date,
+            slot.timezone
+          ),
+          previousTime: previous.previous_time,
+        });
+        if (success) console.log("✅ Reschedule email sent to:", user.email);
+      }
+    } catch (emailError) {
+      console.error("❌ Error sending reschedule email:", emailError);
+    }
+
+    return NextResponse.json({
+      message: "Appointment rescheduled successfully",
+      appointment,
+    });
+  } catch (error) {
+    console.error("Error rescheduling appointment:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to reschedule appointment",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/utils/supabase/server";
+import { APIError } from "@/lib/api-utils";
+import {
+  bookAppointmentSlot,
+  findAvailableSlot,
+  suggestAlternativeSlots,
+} from "@/lib/availability";
 
 interface AppointmentRequest {
   userId: string;
   diagnosticId: string;
-  preferredDate?: string;
-  preferredTime?: string;
+  slotStart: string; // ISO start of an open slot from /api/availability/slots
+  providerId?: string;
 }
 
 export async function POST(request: NextRequest) {
@@ -15,59 +21,52 @@ export async function POST(request: NextRequest) {
     console.log("📝 Received appointment request:", body);
 
     // Validate required fields
-    const { userId, diagnosticId } = body;
+    const { userId, diagnosticId, slotStart } = body;
 
-    if (!userId || !diagnosticId) {
+    if (!userId || !diagnosticId || !slotStart) {
       return NextResponse.json(
-        { error: "Missing required fields: userId, diagnosticId" },
+        { error: "Missing required fields: userId, diagnosticId, slotStart" },
         { status: 400 }
       );
     }
 
-    const supabase = createSupabaseServerClient();
-
-    // Create appointment record
-    const appointmentData = {
-      user_id: userId,
-      diagnostic_id: diagnosticId,
-      appointment_date:
-        body.preferredDate ||
-        new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-      appointment_time: body.preferredTime || "09:00 AM",
-      status: "scheduled",
-    };
-
-    const { data: appointment, error: appointmentError } = await supabase
-      .from("appointments")
-      .insert(appointmentData)
-      .select()
-      .single();
-
-    if (appointmentError) {
-      console.error("Supabase appointment error:", appointmentError);
-
-      // If appointments table doesn't exist, just log the request for now
-      if (appointmentError.code === "42P01") {
-        console.log(
-          "Appointments table not found. Logging appointment request:",
-          appointmentData
-        );
-        return NextResponse.json({
-          message: "Appointment request logged successfully",
-          appointmentData,
-          note: "Appointments table will be created in the next update",
-        });
-      }
-
+    // The requested time must be an open slot
+    const slot = await findAvailableSlot(slotStart, body.providerId);
+    if (!slot) {
       return NextResponse.json(
         {
-          error: "Failed to create appointment",
-          details: appointmentError.message,
+          error: "That time is no longer available.",
+          code: "SLOT_UNAVAILABLE",
+          alternatives: await suggestAlternativeSlots(slotStart, {
+            providerId: body.providerId,
+            userId,
+          }),
         },
-        { status: 500 }
+        { status: 409 }
       );
     }
 
+    let appointment;
+    try {
+      appointment = await bookAppointmentSlot({ userId, diagnosticId, slot });
+    } catch (error) {
+      // Slot filled up meanwhile, or the patient is already booked then
+      if (error instanceof APIError && error.statusCode === 409) {
+        return NextResponse.json(
+          {
+            error: error.message,
+            code: error.code,
+            alternatives: await suggestAlternativeSlots(slot.start, {
+              providerId: slot.providerId,
+              userId,
+            }),
+          },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
     console.log("✅ Appointment created:", appointment);
 
     return NextResponse.json({
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAvailableSlots, resolveDateRange } from "@/lib/availability";
+
+/**
+ * GET: open appointment slots, grouped by date.
+ * - ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive; defaults to the next 14 days)
+ * - ?providerId= / ?location= narrow the slots to one provider or location
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+
+  const range = resolveDateRange(
+    searchParams.get("from"),
+    searchParams.get("to")
+  );
+  if ("error" in range) {
+    return NextResponse.json(
+      { error: range.error, code: "INVALID_DATE_RANGE" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const days = await getAvailableSlots({
+      ...range,
+      providerId: searchParams.get("providerId"),
+      location: searchParams.get("location"),
+    });
+
+    return NextResponse.json({ ...range, days });
+  } catch (error) {
+    console.error("Error fetching available slots:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch available slots",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
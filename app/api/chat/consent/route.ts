@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+  getChatContextConsent,
+  setChatContextConsent,
+} from "@/lib/patient-context";
+
+interface UpdateConsentRequest {
+  shareHistory: boolean;
+}
+
+const unauthenticated = () =>
+  NextResponse.json(
+    { error: "Authentication required", code: "UNAUTHENTICATED" },
+    { status: 401 }
+  );
+
+// Consent is always the signed-in user's own; a client-sent userId is ignored
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) return unauthenticated();
+
+    const shareHistory = await getChatContextConsent(userId);
+
+    return NextResponse.json({ shareHistory });
+  } catch (error) {
+    console.error("Error fetching chat consent:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) return unauthenticated();
+
+    const body: UpdateConsentRequest = await request.json();
+
+    if (typeof body.shareHistory !== "boolean") {
+      return NextResponse.json(
+        { error: "Missing required fields: shareHistory (boolean)" },
+        { status: 400 }
+      );
+    }
+
+    const shareHistory = await setChatContextConsent(userId, body.shareHistory);
+
+    if (shareHistory === null) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    console.log(
+      `🔐 Chat history sharing ${shareHistory ? "enabled" : "disabled"} for user ${userId}`
+    );
+
+    return NextResponse.json({ shareHistory });
+  } catch (error) {
+    console.error("Error updating chat consent:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
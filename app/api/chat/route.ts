@@ -1,16 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { encodeChatEvent, relayWorkerResponse } from "@/lib/chat-stream";
+import { getOrCreateConversation, saveChatMessage } from "@/lib/chat-store";
+import {
+  buildPatientContext,
+  getChatContextConsent,
+} from "@/lib/patient-context";
+import { createStubWorkerResponse } from "@/lib/stub-worker";
+import { parseStructuredSymptom } from "@/lib/symptom-intake";
+import { getTestCatalog } from "@/lib/test-catalog-store";
+import { logTriageEvent, triageConversation } from "@/lib/triage";
+import { validateWorkerResponse } from "@/lib/worker-schema";
+import { ChatMessage, ChatStreamEvent, PatientContext } from "@/types/chat";
+import { StructuredSymptom } from "@/types/medical";
 
-interface Message {
-  role: "user" | "assistant";
-  content: string;
-}
+const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+};
 
 interface ChatRequest {
-  messages: Message[];
+  messages: ChatMessage[];
+  conversationId?: string;
+  intake?: StructuredSymptom; // Structured answers from the guided intake
 }
 
 export async function POST(request: NextRequest) {
   try {
+    // The signed-in user; a userId sent by the client is ignored so nobody
+    // can read or write another patient's history
+    const { userId } = await auth();
     const body: ChatRequest = await request.json();
 
     // Validate the request body
@@ -21,33 +41,255 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get worker URL from environment variables
+    // Validate structured intake answers, when the message came from the
+    // guided intake
+    let intake: StructuredSymptom | undefined;
+    if (body.intake !== undefined) {
+      const parsed = parseStructuredSymptom(body.intake);
+      if ("error" in parsed) {
+        return NextResponse.json(
+          { error: `Invalid request: ${parsed.error}` },
+          { status: 400 }
+        );
+      }
+      intake = parsed.symptom;
+    }
+
+    // Get worker URL from environment variables. Without one, replies come
+    // from the built-in rule-based stub worker.
     const workerUrl = process.env.WORKER_URL;
 
-    if (!workerUrl) {
+    // Persist the user's turn when chatting on behalf of a signed-in user.
+    // Persistence failures are logged but never block the chat itself.
+    let conversationId: string | undefined;
+    const userMessage = body.messages[body.messages.length - 1];
+
+    if (userId) {
+      try {
+        conversationId = await getOrCreateConversation(
+          userId,
+          body.conversationId,
+          userMessage?.content
+        );
+
+        if (userMessage?.role === "user") {
+          await saveChatMessage({
+            userId: userId,
+            conversationId,
+            content: userMessage.content,
+            isBot: false,
+            metadata: intake ? { intake } : undefined,
+          });
+        }
+      } catch (persistError) {
+        console.error("Failed to persist user chat message:", persistError);
+      }
+    }
+
+    // Red-flag symptoms never reach the worker: reply with escalation
+    // instructions right away
+    const emergency = triageConversation(body.messages);
+
+    if (emergency) {
+      console.warn(`🚨 Emergency triage: ${emergency.triageCategory}`);
+
+      try {
+        await logTriageEvent({
+          userId: userId ?? undefined,
+          conversationId,
+          category: emergency.triageCategory,
+          message: userMessage.content,
+        });
+      } catch (logError) {
+        console.error("Failed to log triage event:", logError);
+      }
+
+      if (userId && conversationId) {
+        try {
+          await saveChatMessage({
+            userId: userId,
+            conversationId,
+            content: emergency.reply,
+            isBot: true,
+            metadata: {
+              type: emergency.type,
+              triageCategory: emergency.triageCategory,
+            },
+          });
+        } catch (persistError) {
+          console.error(
+            "Failed to persist emergency chat message:",
+            persistError
+          );
+        }
+      }
+
+      const events: ChatStreamEvent[] = [
+        { event: "token", data: { delta: emergency.reply } },
+        { event: "done", data: { ...emergency, conversationId } },
+      ];
+
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          events.forEach((event) => controller.enqueue(encodeChatEvent(event)));
+          controller.close();
+        },
+      });
+
+      return new Response(stream, { headers: EVENT_STREAM_HEADERS });
+    }
+
+    // Attach the patient's history when they consented to share it.
+    // Like persistence, a failure here falls back to a context-free chat.
+    let patientContext: PatientContext | undefined;
+
+    if (userId) {
+      try {
+        if (await getChatContextConsent(userId)) {
+          patientContext = await buildPatientContext(userId);
+        }
+      } catch (contextError) {
+        console.error("Failed to build patient context:", contextError);
+      }
+    }
+
+    // Abort the upstream request when the client disconnects or cancels
+    const upstream = new AbortController();
+    request.signal.addEventListener("abort", () => upstream.abort());
+
+    // Forward messages to the worker
+    let workerResponse: Response;
+    try {
+      if (!workerUrl) {
+        console.log("🤖 WORKER_URL not set, using stub worker");
+      }
+
+      workerResponse = workerUrl
+        ? await fetch(workerUrl, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Accept: "text/event-stream, application/json",
+            },
+            body: JSON.stringify({
+              messages: body.messages,
+              intake,
+              patientContext,
+            }),
+            signal: upstream.signal,
+          })
+        : createStubWorkerResponse(body.messages);
+    } catch (fetchError) {
+      if (request.signal.aborted) throw fetchError;
+
+      console.error("Worker request failed:", fetchError);
       return NextResponse.json(
-        { error: "Worker URL not configured" },
-        { status: 500 }
+        { error: "AI worker is unavailable", code: "WORKER_UNAVAILABLE" },
+        { status: 502 }
       );
     }
 
-    // Forward messages to the worker
-    const workerResponse = await fetch(workerUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
+    if (!workerResponse.ok) {
+      console.error(`Worker responded with status: ${workerResponse.status}`);
+      return NextResponse.json(
+        {
+          error: "AI worker is unavailable",
+          code: "WORKER_UNAVAILABLE",
+          details: `Worker responded with status: ${workerResponse.status}`,
+        },
+        { status: 502 }
+      );
+    }
+
+    // Relay the worker output as a server-sent event stream
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: ChatStreamEvent) =>
+          controller.enqueue(encodeChatEvent(event));
+
+        try {
+          const relayed = await relayWorkerResponse(workerResponse, (delta) =>
+            send({ event: "token", data: { delta } })
+          );
+
+          // Enforce the worker contract before acting on or storing the reply
+          const validation = validateWorkerResponse(
+            relayed,
+            await getTestCatalog()
+          );
+          if (!validation.ok) {
+            console.error(
+              "Invalid worker response:",
+              validation.error,
+              relayed
+            );
+            send({
+              event: "error",
+              data: { error: validation.error, code: validation.code },
+            });
+            return;
+          }
+
+          if (validation.repairs.length > 0) {
+            console.warn("Repaired worker response:", validation.repairs);
+          }
+
+          const workerData = validation.value;
+
+          if (userId && conversationId) {
+            try {
+              await saveChatMessage({
+                userId: userId,
+                conversationId,
+                content: workerData.reply,
+                isBot: true,
+                metadata: {
+                  type: workerData.type,
+                  testName: workerData.testName,
+                  testId: workerData.testId,
+                },
+              });
+            } catch (persistError) {
+              console.error(
+                "Failed to persist assistant chat message:",
+                persistError
+              );
+            }
+          }
+
+          send({ event: "done", data: { ...workerData, conversationId } });
+        } catch (error) {
+          if (upstream.signal.aborted) {
+            console.log("Chat stream cancelled by client");
+          } else {
+            console.error("Error streaming worker response:", error);
+            send({
+              event: "error",
+              data: {
+                error: "Failed to stream worker response",
+                code: "STREAM_FAILED",
+              },
+            });
+          }
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Stream already closed by a cancelled client
+          }
+        }
+      },
+      cancel() {
+        upstream.abort();
       },
-      body: JSON.stringify(body),
     });
 
-    if (!workerResponse.ok) {
-      throw new Error(`Worker responded with status: ${workerResponse.status}`);
+    return new Response(stream, { headers: EVENT_STREAM_HEADERS });
+  } catch (error) {
+    if (request.signal.aborted) {
+      return new Response(null, { status: 499 });
     }
 
-    // Parse and return the worker's JSON response
-    const workerData = await workerResponse.json();
-    return NextResponse.json(workerData);
-  } catch (error) {
     console.error("Error in chat API:", error);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { APIError } from "@/lib/api-utils";
+import { listConversationMessages, parsePageSize } from "@/lib/chat-store";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "userId parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await listConversationMessages(userId, id, {
+      limit: parsePageSize(searchParams.get("limit")),
+      before: searchParams.get("before") || undefined,
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Error fetching conversation messages:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updateConversation } from "@/lib/chat-store";
+
+interface UpdateConversationRequest {
+  userId: string;
+  title?: string;
+  archived?: boolean;
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body: UpdateConversationRequest = await request.json();
+
+    if (!body.userId) {
+      return NextResponse.json(
+        { error: "Missing required fields: userId" },
+        { status: 400 }
+      );
+    }
+
+    if (body.title === undefined && body.archived === undefined) {
+      return NextResponse.json(
+        { error: "Nothing to update: provide title and/or archived" },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await updateConversation(body.userId, id, {
+      title: body.title,
+      archived: body.archived,
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(conversation);
+  } catch (error) {
+    console.error("Error updating conversation:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
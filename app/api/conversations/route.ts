@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { APIError } from "@/lib/api-utils";
+import {
+  createConversation,
+  listConversations,
+  parsePageSize,
+} from "@/lib/chat-store";
+
+interface CreateConversationRequest {
+  userId: string;
+  title?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: CreateConversationRequest = await request.json();
+
+    if (!body.userId) {
+      return NextResponse.json(
+        { error: "Missing required fields: userId" },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await createConversation(body.userId, body.title);
+
+    return NextResponse.json(conversation);
+  } catch (error) {
+    console.error("Error creating conversation:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "userId parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await listConversations(userId, {
+      limit: parsePageSize(searchParams.get("limit")),
+      before: searchParams.get("before") || undefined,
+      archived: searchParams.get("archived") === "true",
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Error fetching conversations:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/utils/supabase/server";
+import {
+  findMedicalTest,
+  findMedicalTestByName,
+  MedicalTest,
+} from "@/lib/test-catalog";
+import { getTestCatalog } from "@/lib/test-catalog-store";
+import { parseStructuredSymptom } from "@/lib/symptom-intake";
+import { saveDateOfBirth } from "@/lib/patient-context";
+import { APIError } from "@/lib/api-utils";
+import {
+  bookAppointmentSlot,
+  findAvailableSlot,
+  suggestAlternativeSlots,
+} from "@/lib/availability";
+import { StructuredSymptom } from "@/types/medical";
 
 interface DiagnosticsRequest {
   userId: string;
   symptom: string;
   aiSummary: string;
   hospital: string;
-  scheduledDate: string;
+  scheduledDate: string; // ISO start of an open slot from /api/availability/slots
+  providerId?: string; // Provider of that slot
   testName?: string;
   testId?: string;
   selectedTests?: string[]; // Array of selected test IDs/names
+  conversationId?: string; // Chat thread the diagnostic was created from
+  symptomDetails?: StructuredSymptom | null; // Guided intake answers
+  patientInfo?: {
+    dateOfBirth?: string; // YYYY-MM-DD, saved to user_medical_info
+  };
 }
 
 interface DiagnosticsRecord {
@@ -20,6 +41,8 @@ interface DiagnosticsRecord {
   hospital: string;
   scheduled_date: string;
   test_name?: string;
+  conversation_id?: string | null;
+  symptom_details?: StructuredSymptom | null;
   status: string;
   created_at: string;
   updated_at: string;
@@ -46,6 +69,64 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate structured intake answers, when the symptom came from the
+    // guided intake
+    let symptomDetails: StructuredSymptom | null = null;
+    if (body.symptomDetails) {
+      const parsed = parseStructuredSymptom(body.symptomDetails);
+      if ("error" in parsed) {
+        return NextResponse.json(
+          { error: `Invalid symptomDetails: ${parsed.error}` },
+          { status: 400 }
+        );
+      }
+      symptomDetails = parsed.symptom;
+    }
+
+    // Resolve every requested test against the active catalog before
+    // inserting
+    const catalog = await getTestCatalog();
+    const requestedTests =
+      body.selectedTests ||
+      (body.testId ? [body.testId] : body.testName ? [body.testName] : []);
+    const catalogTests: MedicalTest[] = [];
+    const unknownTests: string[] = [];
+
+    for (const requested of requestedTests) {
+      const test =
+        findMedicalTest(requested, catalog) ||
+        findMedicalTestByName(requested, catalog);
+      if (test) catalogTests.push(test);
+      else unknownTests.push(requested);
+    }
+
+    if (unknownTests.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Unknown test",
+          code: "UNKNOWN_TEST",
+          details: `Not in the test catalog: ${unknownTests.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // The selected time must still be an open slot
+    const slot = await findAvailableSlot(body.scheduledDate, body.providerId);
+    if (!slot) {
+      return NextResponse.json(
+        {
+          error: "That time is no longer available.",
+          code: "SLOT_UNAVAILABLE",
+          alternatives: await suggestAlternativeSlots(body.scheduledDate, {
+            providerId: body.providerId,
+            userId: body.userId,
+          }),
+        },
+        { status: 409 }
+      );
+    }
+
     // Create Supabase server client
     const supabase = createSupabaseServerClient();
 
@@ -55,8 +136,10 @@ export async function POST(request: NextRequest) {
       symptom: body.symptom,
       ai_summary: body.aiSummary,
       hospital: body.hospital,
-      scheduled_date: body.scheduledDate,
+      scheduled_date: slot.start,
       test_name: body.testName || null,
+      conversation_id: body.conversationId || null,
+      symptom_details: symptomDetails,
       status: "scheduled",
     };
 
@@ -78,17 +161,57 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Reserve the slot through the same atomic booking as /api/appointments,
+    // so capacity and the patient's other appointments are re-checked
+    let appointment;
+    try {
+      appointment = await bookAppointmentSlot({
+        userId: body.userId,
+        diagnosticId: diagnosticRecord.id,
+        slot,
+      });
+    } catch (error) {
+      console.error("Error booking diagnostic appointment:", error);
+      // Don't keep a diagnostic for a time that was not booked
+      await supabase.from("diagnostics").delete().eq("id", diagnosticRecord.id);
+
+      if (error instanceof APIError && error.statusCode === 409) {
+        return NextResponse.json(
+          {
+            error: error.message,
+            code: error.code,
+            alternatives: await suggestAlternativeSlots(slot.start, {
+              providerId: slot.providerId,
+              userId: body.userId,
+            }),
+          },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "Failed to book appointment",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 500 }
+      );
+    }
+
+    // Keep the date of birth so age comes from it in predictions and chat
+    if (body.patientInfo?.dateOfBirth) {
+      await saveDateOfBirth(body.userId, body.patientInfo.dateOfBirth);
+    }
+
     // Create test records in tests table for each selected test
     let testData: Record<string, unknown>[] = [];
-    const testsToCreate =
-      body.selectedTests || (body.testName ? [body.testName] : []);
 
-    if (testsToCreate.length > 0) {
-      // Create multiple test records
-      const testRecords = testsToCreate.map((testName) => ({
+    if (catalogTests.length > 0) {
+      // Create multiple test records using the catalog's id and name
+      const testRecords = catalogTests.map((test) => ({
         diagnostic_id: diagnosticRecord.id,
-        test_name: testName,
-        test_id: body.testId || testName, // Use testId from request, fallback to testName
+        test_name: test.name,
+        test_id: test.id,
         status: "pending", // Initial status
         result_file: null, // No result file initially
       }));
@@ -131,10 +254,13 @@ export async function POST(request: NextRequest) {
       hospital: diagnosticRecord.hospital,
       scheduledDate: diagnosticRecord.scheduled_date,
       testName: diagnosticRecord.test_name,
+      conversationId: diagnosticRecord.conversation_id,
+      symptomDetails: diagnosticRecord.symptom_details,
       status: diagnosticRecord.status,
       createdAt: diagnosticRecord.created_at,
       updatedAt: diagnosticRecord.updated_at,
       tests: testData, // Include created test data (array)
+      appointmentId: appointment.id,
     });
   } catch (error) {
     console.error("Error creating diagnostic record:", error);
@@ -152,6 +278,7 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get("userId");
+    const conversationId = searchParams.get("conversationId");
 
     if (!userId) {
       return NextResponse.json(
@@ -163,13 +290,19 @@ export async function GET(request: NextRequest) {
     // Create Supabase server client
     const supabase = createSupabaseServerClient();
 
-    // Fetch diagnostics for the user
-    const { data, error } = await supabase
+    // Fetch diagnostics for the user, optionally limited to one chat thread
+    let query = supabase
       .from("diagnostics")
       .select("*")
       .eq("user_id", userId)
       .order("created_at", { ascending: false });
 
+    if (conversationId) {
+      query = query.eq("conversation_id", conversationId);
+    }
+
+    const { data, error } = await query;
+
     if (error) {
       console.error("Supabase error:", error);
       return NextResponse.json(
@@ -190,6 +323,8 @@ export async function GET(request: NextRequest) {
       hospital: record.hospital,
       scheduledDate: record.scheduled_date,
       testName: record.test_name,
+      conversationId: record.conversation_id,
+      symptomDetails: record.symptom_details || null,
       status: record.status,
       createdAt: record.created_at,
       updatedAt: record.updated_at,
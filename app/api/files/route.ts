@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLabFileContentType } from "@/lib/lab-files";
+import { readSignedLocalFile } from "@/lib/storage";
+
+// Serve a file from local storage (STORAGE_DRIVER=local) for a signed link
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const objectPath = searchParams.get("path") || "";
+
+  try {
+    const file = await readSignedLocalFile(
+      objectPath,
+      Number(searchParams.get("expires")),
+      searchParams.get("signature") || ""
+    );
+
+    if (!file) {
+      return NextResponse.json(
+        { error: "Invalid or expired link" },
+        { status: 403 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type": getLabFileContentType(objectPath),
+        "Content-Disposition": "inline",
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error serving file:", error);
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import { APIError } from "@/lib/api-utils";
+import { parseCsv } from "@/lib/csv";
+import {
+  buildFeatureVector,
+  FeatureInput,
+  getMLModel,
+  MLModel,
+} from "@/lib/ml-models";
+import { scorePrediction } from "@/lib/ml-scoring";
+import { BatchPredictionRow, BatchPredictionSummary } from "@/types/prediction";
+
+const MAX_BATCH_ROWS = 500;
+const BATCH_CONCURRENCY = 5; // Rows scored in parallel against the backend
+
+// Read feature rows from a JSON body ({ rows: [...] }), a text/csv body or a
+// multipart upload with a CSV "file" field
+async function readRows(request: NextRequest): Promise<FeatureInput[]> {
+  const contentType = request.headers.get("content-type") || "";
+
+  if (contentType.includes("multipart/form-data")) {
+    const file = (await request.formData()).get("file");
+    if (!(file instanceof File)) {
+      throw new APIError("Missing CSV file field: file", 400, "INVALID_BATCH");
+    }
+    return parseCsv(await file.text());
+  }
+
+  if (contentType.includes("text/csv")) {
+    return parseCsv(await request.text());
+  }
+
+  const body = await request.json().catch(() => {
+    throw new APIError("Body must be valid JSON", 400, "INVALID_BATCH");
+  });
+  if (!Array.isArray(body?.rows)) {
+    throw new APIError("rows must be an array", 400, "INVALID_BATCH");
+  }
+  return body.rows;
+}
+
+async function scoreRow(
+  model: MLModel,
+  input: FeatureInput,
+  index: number
+): Promise<BatchPredictionRow> {
+  const row = index + 1;
+
+  if (!input || typeof input !== "object") {
+    return { row, status: "invalid", error: "Row must be an object" };
+  }
+
+  const id =
+    input.id !== undefined && input.id !== "" ? String(input.id) : undefined;
+
+  const vector = buildFeatureVector(model, input);
+  if ("fieldErrors" in vector) {
+    return { row, id, status: "invalid", fieldErrors: vector.fieldErrors };
+  }
+
+  try {
+    const { result } = await scorePrediction(
+      model,
+      vector,
+      `batch:${id ?? row}`
+    );
+    return { row, id, status: "scored", result };
+  } catch (error) {
+    return {
+      row,
+      id,
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+function summarize(results: BatchPredictionRow[]): BatchPredictionSummary {
+  const scored = results.filter(({ status }) => status === "scored");
+
+  return {
+    total: results.length,
+    scored: scored.length,
+    invalid: results.filter(({ status }) => status === "invalid").length,
+    failed: results.filter(({ status }) => status === "failed").length,
+    positive: scored.filter(({ result }) => result?.prediction === 1).length,
+    fallback: scored.filter(({ result }) => result?.source === "fallback")
+      .length,
+  };
+}
+
+// Screen a list of patients in one request. Results are returned, not stored:
+// batch rows are not tied to tests rows.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ model: string }> }
+) {
+  const { model: modelId } = await params;
+  const model = getMLModel(modelId);
+
+  if (!model) {
+    return NextResponse.json(
+      { error: `Unknown prediction model: ${modelId}` },
+      { status: 404 }
+    );
+  }
+
+  console.log(`🧠 ${model.name} batch prediction API called`);
+  try {
+    const rows = await readRows(request);
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: "No rows to score", code: "INVALID_BATCH" },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length > MAX_BATCH_ROWS) {
+      return NextResponse.json(
+        {
+          error: `Too many rows: ${rows.length} (maximum ${MAX_BATCH_ROWS})`,
+          code: "BATCH_TOO_LARGE",
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(`📊 Scoring ${rows.length} rows`);
+
+    const results: BatchPredictionRow[] = [];
+    for (let i = 0; i < rows.length; i += BATCH_CONCURRENCY) {
+      const chunk = rows.slice(i, i + BATCH_CONCURRENCY);
+      results.push(
+        ...(await Promise.all(
+          chunk.map((row, offset) => scoreRow(model, row, i + offset))
+        ))
+      );
+    }
+
+    const summary = summarize(results);
+    console.log("🤖 Batch summary:", summary);
+
+    return NextResponse.json({ model: model.id, summary, results });
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error(
+      `Error in ${model.name.toLowerCase()} batch prediction:`,
+      error
+    );
+    return NextResponse.json(
+      {
+        error: `Failed to process ${model.name.toLowerCase()} batch prediction`,
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMLModel } from "@/lib/ml-models";
+import { getRiskTrend } from "@/lib/prediction-history";
+
+// A patient's stored predictions for one model over time
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ model: string }> }
+) {
+  const { model: modelId } = await params;
+  const model = getMLModel(modelId);
+
+  if (!model) {
+    return NextResponse.json(
+      { error: `Unknown prediction model: ${modelId}` },
+      { status: 404 }
+    );
+  }
+
+  const userId = request.nextUrl.searchParams.get("userId");
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Missing required fields: userId" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const trend = await getRiskTrend(userId, model);
+    console.log(
+      `📊 ${model.name} trend for ${userId}: ${trend.points.length} screenings`
+    );
+
+    return NextResponse.json(trend);
+  } catch (error) {
+    console.error(`Error fetching ${model.name.toLowerCase()} history:`, error);
+    return NextResponse.json(
+      {
+        error: `Failed to fetch ${model.name.toLowerCase()} history`,
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMLModel } from "@/lib/ml-models";
+import { getPredictionPrefill } from "@/lib/prediction-prefill";
+
+// Suggested form values for a model from the patient's profile and their
+// last screening
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ model: string }> }
+) {
+  const { model: modelId } = await params;
+  const model = getMLModel(modelId);
+
+  if (!model) {
+    return NextResponse.json(
+      { error: `Unknown prediction model: ${modelId}` },
+      { status: 404 }
+    );
+  }
+
+  const userId = request.nextUrl.searchParams.get("userId");
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Missing required fields: userId" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const prefill = await getPredictionPrefill(userId, model);
+    console.log(
+      `📝 ${model.name} prefill for ${userId}:`,
+      Object.keys(prefill.fields)
+    );
+
+    return NextResponse.json(prefill);
+  } catch (error) {
+    console.error(`Error building ${model.name.toLowerCase()} prefill:`, error);
+    return NextResponse.json(
+      {
+        error: `Failed to prefill ${model.name.toLowerCase()} form`,
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+import { buildFeatureVector, FeatureInput, getMLModel } from "@/lib/ml-models";
+import { scorePrediction } from "@/lib/ml-scoring";
+import { getCatalogTest } from "@/lib/test-catalog-store";
+import { APIError } from "@/lib/api-utils";
+import { raiseTestAlerts } from "@/lib/alerts";
+import { findPatientTest } from "@/lib/patient-tests";
+
+interface PredictionRequest extends FeatureInput {
+  testId: string;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ model: string }> }
+) {
+  const { model: modelId } = await params;
+  const model = getMLModel(modelId);
+
+  if (!model) {
+    return NextResponse.json(
+      { error: `Unknown prediction model: ${modelId}` },
+      { status: 404 }
+    );
+  }
+
+  console.log(`🧠 ${model.name} prediction API called`);
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Authentication required", code: "UNAUTHENTICATED" },
+        { status: 401 }
+      );
+    }
+
+    const body: PredictionRequest = await request.json();
+    console.log("📝 Received request body:", body);
+
+    if (body.testId === undefined) {
+      return NextResponse.json(
+        { error: "Missing required fields: testId" },
+        { status: 400 }
+      );
+    }
+
+    // Validate inputs and assemble the features in the order the model expects
+    const vector = buildFeatureVector(model, body);
+    if ("fieldErrors" in vector) {
+      return NextResponse.json(
+        {
+          error: `Invalid input for ${model.name.toLowerCase()} prediction`,
+          code: "VALIDATION_ERROR",
+          fieldErrors: vector.fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    // The prediction is stored on the tests row, which must be one of the
+    // patient's own tests and a test this model scores
+    const testRecord = await findPatientTest(String(body.testId), userId);
+    if (!testRecord) {
+      return NextResponse.json({ error: "Test not found" }, { status: 404 });
+    }
+
+    // The catalog links each test to the model that scores it
+    const catalogTest = await getCatalogTest(testRecord.test_id);
+    if (catalogTest?.mlModel !== model.id) {
+      return NextResponse.json(
+        {
+          error: `The ${model.id} model cannot score test ${testRecord.test_id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Score on the routed model version, falling back to the built-in
+    // scorer if the backend is unavailable
+    const { result, rawResponse } = await scorePrediction(
+      model,
+      vector,
+      String(body.testId)
+    );
+
+    // Store the result and complete the test. A storage failure is logged
+    // but the prediction is still returned to the patient.
+    const supabase = createSupabaseServerClient();
+    const { error: updateError } = await supabase
+      .from("tests")
+      .update({
+        status: "completed",
+        result,
+        completed_at: result.predictedAt,
+      })
+      .eq("id", testRecord.id);
+
+    if (updateError) {
+      console.error("Failed to store prediction result:", updateError);
+    } else {
+      console.log(`💾 Prediction stored on test ${body.testId}`);
+      await raiseTestAlerts(body.testId, { kind: "prediction", result });
+    }
+
+    return NextResponse.json({
+      testId: body.testId,
+      model: model.id,
+      modelVersion: result.modelVersion,
+      source: result.source,
+      prediction: result.prediction,
+      probability: result.probability,
+      contributions: result.contributions,
+      predictedAt: result.predictedAt,
+      message:
+        result.source === "fallback"
+          ? `${model.name} prediction estimated by the offline fallback scorer`
+          : `${model.name} prediction completed successfully`,
+      inputData: vector.inputData,
+      rawResponse,
+    });
+  } catch (error) {
+    // ML backend down, timed out or rejecting the request
+    if (error instanceof APIError) {
+      console.error(`🚨 ${model.name} prediction failed:`, error.message);
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error(`Error in ${model.name.toLowerCase()} prediction:`, error);
+    return NextResponse.json(
+      {
+        error: `Failed to process ${model.name.toLowerCase()} prediction`,
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
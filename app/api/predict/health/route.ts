@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { checkMLBackendHealth } from "@/lib/ml-client";
+
+// Reports whether the ML backend is reachable and the circuit breaker state
+export async function GET() {
+  const health = await checkMLBackendHealth();
+
+  if (health.status !== "ok") {
+    console.warn("🚨 ML backend health check failed:", health.error);
+  }
+
+  return NextResponse.json(health, {
+    status: health.status === "ok" ? 200 : 503,
+  });
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin";
+import { APIError } from "@/lib/api-utils";
+import {
+  parseCatalogTestInput,
+  updateCatalogTest,
+} from "@/lib/test-catalog-store";
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof APIError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`Error trying to ${action} catalog test:`, error);
+  return NextResponse.json(
+    {
+      error: `Failed to ${action} catalog test`,
+      details: error instanceof Error ? error.message : "Unknown error",
+    },
+    { status: 500 }
+  );
+}
+
+// PATCH: update some of a test's fields (admins only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const adminId = await requireAdmin();
+    const body = await request.json();
+
+    const parsed = parseCatalogTestInput(body, { partial: true });
+    if ("fieldErrors" in parsed) {
+      return NextResponse.json(
+        {
+          error: "Invalid catalog test",
+          code: "VALIDATION_ERROR",
+          fieldErrors: parsed.fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const test = await updateCatalogTest(id, parsed.row);
+    if (!test) {
+      return NextResponse.json({ error: "Test not found" }, { status: 404 });
+    }
+
+    console.log(`🧾 Catalog test ${id} updated by ${adminId}`);
+    return NextResponse.json({ test });
+  } catch (error) {
+    return errorResponse(error, "update");
+  }
+}
+
+// DELETE: retire a test (admins only). Tests rows reference catalog ids, so
+// the test is deactivated rather than removed.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const adminId = await requireAdmin();
+
+    const test = await updateCatalogTest(id, { active: false });
+    if (!test) {
+      return NextResponse.json({ error: "Test not found" }, { status: 404 });
+    }
+
+    console.log(`🧾 Catalog test ${id} deactivated by ${adminId}`);
+    return NextResponse.json({ test });
+  } catch (error) {
+    return errorResponse(error, "deactivate");
+  }
+}
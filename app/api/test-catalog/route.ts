@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin";
+import { APIError } from "@/lib/api-utils";
+import {
+  createCatalogTest,
+  getTestCatalog,
+  parseCatalogTestInput,
+} from "@/lib/test-catalog-store";
+
+/**
+ * GET: the active test catalog.
+ * - ?ids=a,b returns those tests whether active or not, for pages showing
+ *   existing tests rows
+ * - ?includeInactive=true returns every test (admins only)
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const ids = searchParams.get("ids");
+
+  try {
+    if (searchParams.get("includeInactive") === "true") {
+      await requireAdmin();
+      return NextResponse.json({
+        tests: await getTestCatalog({ includeInactive: true }),
+      });
+    }
+
+    if (ids) {
+      const wanted = ids.split(",").map((id) => id.trim());
+      const tests = await getTestCatalog({ includeInactive: true });
+      return NextResponse.json({
+        tests: tests.filter((test) => wanted.includes(test.id)),
+      });
+    }
+
+    return NextResponse.json({ tests: await getTestCatalog() });
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Error fetching test catalog:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch test catalog",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: add a test to the catalog (admins only)
+export async function POST(request: NextRequest) {
+  try {
+    const adminId = await requireAdmin();
+    const body = await request.json();
+
+    const parsed = parseCatalogTestInput(body, { partial: false });
+    if ("fieldErrors" in parsed) {
+      return NextResponse.json(
+        {
+          error: "Invalid catalog test",
+          code: "VALIDATION_ERROR",
+          fieldErrors: parsed.fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const test = await createCatalogTest(parsed.row);
+    console.log(`🧾 Catalog test ${test.id} created by ${adminId}`);
+
+    return NextResponse.json({ test }, { status: 201 });
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Error creating catalog test:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to create catalog test",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+import { raiseTestAlerts } from "@/lib/alerts";
+import { parseLabValues } from "@/lib/lab-schemas";
+import { findPatientTest } from "@/lib/patient-tests";
+import { getTestLabSchema } from "@/lib/test-catalog";
+import { getCatalogTest } from "@/lib/test-catalog-store";
+
+// Store structured lab values for a test and mark the test completed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  console.log(`🧪 Lab values submitted for test ${id}`);
+
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Authentication required", code: "UNAUTHENTICATED" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (!body?.values || typeof body.values !== "object") {
+      return NextResponse.json(
+        { error: "Missing required fields: values" },
+        { status: 400 }
+      );
+    }
+
+    // Patients can only enter results for their own tests
+    const testRecord = await findPatientTest(id, userId);
+    if (!testRecord) {
+      return NextResponse.json({ error: "Test not found" }, { status: 404 });
+    }
+
+    const catalogTest = await getCatalogTest(testRecord.test_id);
+    const schema = catalogTest ? getTestLabSchema(catalogTest) : null;
+
+    if (!schema) {
+      return NextResponse.json(
+        { error: `Test ${testRecord.test_id} has no lab value schema` },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseLabValues(schema, body.values);
+
+    if ("fieldErrors" in parsed) {
+      return NextResponse.json(
+        {
+          error: "Invalid lab values",
+          code: "VALIDATION_ERROR",
+          fieldErrors: parsed.fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { labResult } = parsed;
+    const supabase = createSupabaseServerClient();
+    const { error: updateError } = await supabase
+      .from("tests")
+      .update({
+        status: "completed",
+        lab_values: labResult,
+        completed_at: labResult.recordedAt,
+      })
+      .eq("id", testRecord.id);
+
+    if (updateError) {
+      throw new Error(`Failed to store lab values: ${updateError.message}`);
+    }
+
+    const flagged = labResult.values.filter(({ flag }) => flag !== "normal");
+    console.log(
+      `💾 Stored ${labResult.values.length} lab values (${flagged.length} out of range)`
+    );
+    await raiseTestAlerts(testRecord.id, { kind: "lab", labResult });
+
+    return NextResponse.json({ testId: testRecord.id, labResult });
+  } catch (error) {
+    console.error("Error storing lab values:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to store lab values",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+import { LAB_FILE_HEADER_BYTES, validateLabFile } from "@/lib/lab-files";
+import { findPatientTest } from "@/lib/patient-tests";
+import { getStorage } from "@/lib/storage";
+
+const SIGNED_URL_TTL_SECONDS = 60 * 5;
+
+const UPLOAD_ERROR_STATUS = {
+  EMPTY_FILE: 400,
+  FILE_TOO_LARGE: 413,
+  UNSUPPORTED_FILE_TYPE: 415,
+};
+
+const unauthenticated = () =>
+  NextResponse.json(
+    { error: "Authentication required", code: "UNAUTHENTICATED" },
+    { status: 401 }
+  );
+
+// Upload a lab result file for a test and mark the test completed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  console.log(`📎 Lab result upload for test ${id}`);
+
+  try {
+    const { userId } = await auth();
+    if (!userId) return unauthenticated();
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "Missing required fields: file" },
+        { status: 400 }
+      );
+    }
+
+    // Check size and signature before reading the whole file
+    const header = new Uint8Array(
+      await file.slice(0, LAB_FILE_HEADER_BYTES).arrayBuffer()
+    );
+    const validation = validateLabFile(file, header);
+
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: validation.error, code: validation.code },
+        { status: UPLOAD_ERROR_STATUS[validation.code] }
+      );
+    }
+
+    // Patients can only upload results for their own tests
+    const testRecord = await findPatientTest(id, userId);
+    if (!testRecord) {
+      return NextResponse.json({ error: "Test not found" }, { status: 404 });
+    }
+
+    // Object paths are generated, never taken from the client file name
+    const objectPath = `tests/${testRecord.id}/${Date.now()}.${validation.extension}`;
+    await getStorage().upload(
+      objectPath,
+      Buffer.from(await file.arrayBuffer()),
+      validation.contentType
+    );
+    console.log(`💾 Stored lab result at ${objectPath}`);
+
+    const supabase = createSupabaseServerClient();
+    const completedAt = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from("tests")
+      .update({
+        status: "completed",
+        result_file: objectPath,
+        result_file_name: file.name.slice(0, 255),
+        result_file_type: validation.contentType,
+        completed_at: completedAt,
+      })
+      .eq("id", testRecord.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update test: ${updateError.message}`);
+    }
+
+    return NextResponse.json({
+      testId: testRecord.id,
+      status: "completed",
+      resultFile: objectPath,
+      fileName: file.name,
+      completedAt,
+    });
+  } catch (error) {
+    console.error("Error uploading lab result:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to upload lab result",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Redirect to a short-lived signed link for the test's lab result file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { userId } = await auth();
+    if (!userId) return unauthenticated();
+
+    // Only the patient the test belongs to gets a link
+    const testRecord = await findPatientTest(id, userId);
+    if (!testRecord?.result_file) {
+      return NextResponse.json(
+        { error: "No result file for this test" },
+        { status: 404 }
+      );
+    }
+
+    // Rows written before uploads were stored hold a full URL
+    if (/^https?:\/\//.test(testRecord.result_file)) {
+      return NextResponse.redirect(testRecord.result_file);
+    }
+
+    const signedUrl = await getStorage().getSignedUrl(
+      testRecord.result_file,
+      SIGNED_URL_TTL_SECONDS
+    );
+
+    return NextResponse.redirect(new URL(signedUrl, request.url));
+  } catch (error) {
+    console.error("Error signing lab result link:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to get lab result file",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { useState, useEffect } from "react";
 import { createClient } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { useUser } from "@clerk/nextjs";
+import RescheduleAppointment from "@/components/availability/RescheduleAppointment";
 
 interface Appointment {
   id: string;
@@ -11,6 +12,7 @@ interface Appointment {
   appointment_date: string;
   appointment_time: string;
   status: string;
+  reschedule_count?: number;
   created_at: string;
 }
 
@@ -34,6 +36,7 @@ export default function AppointmentsPage() {
   >([]);
   const [loading, setLoading] = useState(true);
   const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchAppointments = async () => {
@@ -175,6 +178,32 @@ export default function AppointmentsPage() {
     }
   };
 
+  // Show the moved appointment; its status and diagnostic are unchanged
+  const handleRescheduled = (
+    appointmentId: string,
+    updated: {
+      appointment_date: string;
+      appointment_time: string;
+      reschedule_count: number;
+    }
+  ) => {
+    setAppointments((prev) =>
+      prev
+        .map((apt) =>
+          apt.id === appointmentId
+            ? {
+                ...apt,
+                appointment_date: updated.appointment_date,
+                appointment_time: updated.appointment_time,
+                reschedule_count: updated.reschedule_count,
+              }
+            : apt
+        )
+        .sort((a, b) => a.appointment_date.localeCompare(b.appointment_date))
+    );
+    setReschedulingId(null);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "scheduled":
@@ -272,6 +301,14 @@ export default function AppointmentsPage() {
                             })}
                           </p>
                           <p>{appointment.appointment_time}</p>
+                          {!!appointment.reschedule_count && (
+                            <p className="text-xs text-gray-500">
+                              Rescheduled {appointment.reschedule_count}{" "}
+                              {appointment.reschedule_count === 1
+                                ? "time"
+                                : "times"}
+                            </p>
+                          )}
                         </div>
 
                         <div>
@@ -296,6 +333,24 @@ export default function AppointmentsPage() {
                     </div>
 
                     <div className="flex gap-2 ml-4">
+                      {isUpcoming &&
+                        (appointment.status === "scheduled" ||
+                          appointment.status === "confirmed") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              setReschedulingId(
+                                reschedulingId === appointment.id
+                                  ? null
+                                  : appointment.id
+                              )
+                            }
+                          >
+                            Reschedule
+                          </Button>
+                        )}
+
                       {isUpcoming && appointment.status === "scheduled" && (
                         <Button
                           variant="outline"
@@ -326,6 +381,22 @@ export default function AppointmentsPage() {
                     </div>
                   </div>
 
+                  {/* Reschedule: pick a new open slot */}
+                  {reschedulingId === appointment.id && (
+                    <div className="border-t pt-4 mt-4">
+                      <p className="font-medium text-gray-900 text-sm mb-2">
+                        🔁 Choose a new time
+                      </p>
+                      <RescheduleAppointment
+                        appointmentId={appointment.id}
+                        onRescheduled={(updated) =>
+                          handleRescheduled(appointment.id, updated)
+                        }
+                        onClose={() => setReschedulingId(null)}
+                      />
+                    </div>
+                  )}
+
                   {/* Diagnostic Summary */}
                   {appointment.diagnostic && (
                     <div className="border-t pt-4 mt-4">
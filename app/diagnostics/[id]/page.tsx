@@ -1,5 +1,5 @@
 "use client";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useParams, notFound } from "next/navigation";
 import { createClient } from "@supabase/supabase-js";
 import {
@@ -11,6 +11,27 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import RiskTrend from "@/components/RiskTrend";
+import LabResultUpload from "@/components/LabResultUpload";
+import LabValuesForm from "@/components/LabValuesForm";
+import BookAppointment from "@/components/availability/BookAppointment";
+import { getMLModel } from "@/lib/ml-models";
+import {
+  findMedicalTest,
+  getTestLabSchema,
+  MEDICAL_TESTS,
+  MedicalTest,
+} from "@/lib/test-catalog";
+import { StructuredSymptom } from "@/types/medical";
+import { LabResult } from "@/types/lab";
+import {
+  FeatureContribution,
+  FieldError,
+  PredictionPrefill,
+  PredictionResult,
+  PredictionSource,
+  PrefillValue,
+} from "@/types/prediction";
 
 interface DiagnosticRecord {
   id: string;
@@ -20,6 +41,7 @@ interface DiagnosticRecord {
   hospital: string;
   scheduled_date: string;
   test_name?: string;
+  symptom_details?: StructuredSymptom | null;
   status: string;
   created_at: string;
   updated_at: string;
@@ -30,8 +52,12 @@ interface TestRecord {
   diagnostic_id: string;
   test_name: string;
   status: string;
-  result_file: string;
+  result_file: string | null; // Storage object path, see /api/tests/[id]/result-file
+  result_file_name: string | null;
+  lab_values: LabResult | null;
   test_id: string;
+  result: PredictionResult | null;
+  completed_at: string | null;
 }
 
 interface Appointment {
@@ -64,6 +90,184 @@ interface MLResponse {
   prediction: number;
   probability: number;
   message?: string;
+  model?: string;
+  modelVersion?: string;
+  source?: PredictionSource;
+  contributions?: FeatureContribution[];
+  predictedAt?: string;
+}
+
+// Map API field errors to { field: message } for inline display
+function toFieldErrorMap(fieldErrors?: FieldError[]): Record<string, string> {
+  return Object.fromEntries(
+    (fieldErrors || []).map(({ field, message }) => [field, message])
+  );
+}
+
+function FieldErrorMessage({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-xs text-red-600">{message}</p>;
+}
+
+// Provenance of a pre-filled value; removed once the patient edits the field
+function PrefillLabel({ prefill }: { prefill?: PrefillValue }) {
+  if (!prefill) return null;
+
+  const origin =
+    prefill.source === "profile"
+      ? `From your profile (${prefill.detail})`
+      : `From your last screening${
+          prefill.recordedAt
+            ? ` on ${new Date(prefill.recordedAt).toLocaleDateString()}`
+            : ""
+        }`;
+
+  return (
+    <p className="mt-1 text-xs text-purple-600">{origin} · edit to change</p>
+  );
+}
+
+// Suggested values for a new screening from the patient's profile and last
+// results. Not fetched when reopening a stored result.
+function usePredictionPrefill(model: string, userId: string, enabled: boolean) {
+  const [prefill, setPrefill] = useState<Record<string, PrefillValue>>({});
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+
+    let cancelled = false;
+    const fetchPrefill = async () => {
+      try {
+        const response = await fetch(
+          `/api/predict/${model}/prefill?userId=${encodeURIComponent(userId)}`
+        );
+        if (!response.ok) return;
+        const data: PredictionPrefill = await response.json();
+        if (!cancelled) setPrefill(data.fields);
+      } catch (error) {
+        console.error("Error fetching form prefill:", error);
+      }
+    };
+
+    fetchPrefill();
+    return () => {
+      cancelled = true;
+    };
+  }, [model, userId, enabled]);
+
+  return prefill;
+}
+
+// Prefill for the fields the patient hasn't edited yet, so a late response
+// never overwrites what they typed
+function untouchedPrefill(
+  prefill: Record<string, PrefillValue>,
+  touched: Set<string>
+) {
+  return Object.fromEntries(
+    Object.entries(prefill).filter(([field]) => !touched.has(field))
+  );
+}
+
+// Drop a field's provenance once the patient overrides it
+function withoutPrefill(
+  prefilled: Record<string, PrefillValue>,
+  field: string
+) {
+  const next = { ...prefilled };
+  delete next[field];
+  return next;
+}
+
+// Count of lab values outside their reference range, for the test card
+function LabValuesSummary({ labResult }: { labResult: LabResult }) {
+  const flagged = labResult.values.filter(({ flag }) => flag !== "normal");
+
+  if (flagged.length === 0) {
+    return <span className="font-medium text-green-700">All in range</span>;
+  }
+
+  return (
+    <span
+      className="font-medium text-red-700"
+      title={flagged.map(({ label }) => label).join(", ")}
+    >
+      {flagged.length} out of range
+    </span>
+  );
+}
+
+// Predictions scored while the ML backend was down are estimates
+function FallbackNotice({ source }: { source?: PredictionSource }) {
+  if (source !== "fallback") return null;
+  return (
+    <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-2 py-1">
+      Estimated by the offline fallback scorer because the ML service was
+      unavailable. Treat this result as approximate.
+    </p>
+  );
+}
+
+// Ranked list of the inputs that pushed the predicted risk up or down
+function ContributionList({
+  contributions,
+}: {
+  contributions?: FeatureContribution[];
+}) {
+  if (!contributions?.length) return null;
+
+  return (
+    <div className="mt-4">
+      <h4 className="font-medium text-blue-900 text-sm mb-2">
+        What drove this result
+      </h4>
+      <ol className="space-y-2">
+        {contributions.map((contribution) => (
+          <li key={contribution.feature} className="text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-800">
+                {contribution.label}:{" "}
+                <strong>{String(contribution.value)}</strong>{" "}
+                <span className="text-gray-500">
+                  (reference {contribution.reference})
+                </span>
+              </span>
+              <span
+                className={
+                  contribution.impact > 0 ? "text-red-700" : "text-green-700"
+                }
+              >
+                {contribution.impact > 0 ? "↑ Raises risk" : "↓ Lowers risk"}
+              </span>
+            </div>
+            <div className="mt-1 h-1.5 bg-gray-200 rounded-full">
+              <div
+                className={`h-1.5 rounded-full ${
+                  contribution.impact > 0 ? "bg-red-400" : "bg-green-400"
+                }`}
+                style={{ width: `${Math.round(contribution.share * 100)}%` }}
+              />
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+// Show the stored prediction when a completed test is reopened
+function getStoredResult(test: TestRecord): MLResponse | null {
+  if (!test.result) return null;
+
+  return {
+    prediction: test.result.prediction,
+    probability: test.result.probability,
+    model: test.result.model,
+    modelVersion: test.result.modelVersion,
+    source: test.result.source,
+    contributions: test.result.contributions,
+    predictedAt: test.result.predictedAt,
+  };
 }
 
 interface CardiovascularFormData {
@@ -87,11 +291,13 @@ function DiabetesTestModal({
   diagnostic,
   onClose,
   onAppointmentBooked,
+  onResultSaved,
 }: {
   test: TestRecord;
   diagnostic: DiagnosticRecord;
   onClose: () => void;
   onAppointmentBooked?: () => void;
+  onResultSaved?: () => void;
 }) {
   const [formData, setFormData] = useState<DiabetesFormData>({
     pregnancies: 0,
@@ -102,21 +308,47 @@ function DiabetesTestModal({
     bmi: 0,
     diabetes_pedigree: 0,
     age: 0,
+    ...(test.result?.inputs as Partial<DiabetesFormData>),
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [result, setResult] = useState<MLResponse | null>(null);
+  const [result, setResult] = useState<MLResponse | null>(() =>
+    getStoredResult(test)
+  );
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [prefilled, setPrefilled] = useState<Record<string, PrefillValue>>({});
+  const touchedFields = useRef(new Set<string>());
+
+  const prefill = usePredictionPrefill(
+    "diabetes",
+    diagnostic.user_id,
+    !test.result
+  );
+
+  useEffect(() => {
+    const fields = untouchedPrefill(prefill, touchedFields.current);
+    setFormData((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        Object.entries(fields).map(([field, { value }]) => [field, value])
+      ),
+    }));
+    setPrefilled(fields);
+  }, [prefill]);
 
   const handleInputChange = (field: keyof DiabetesFormData, value: string) => {
     setFormData((prev) => ({
       ...prev,
       [field]: parseFloat(value) || 0,
     }));
+    touchedFields.current.add(field);
+    setPrefilled((prev) => withoutPrefill(prev, field));
   };
 
   const handleSubmit = async () => {
     setIsSubmitting(true);
     try {
-      const response = await fetch("/api/predict-diabetes", {
+      const response = await fetch("/api/predict/diabetes", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -129,7 +361,18 @@ function DiabetesTestModal({
 
       const data = await response.json();
 
+      if (!response.ok) {
+        setFieldErrors(toFieldErrorMap(data.fieldErrors));
+        setSubmitError(
+          data.fieldErrors ? null : data.error || "Failed to get prediction"
+        );
+        return;
+      }
+
+      setFieldErrors({});
+      setSubmitError(null);
       setResult(data);
+      onResultSaved?.();
     } catch (error) {
       console.error("Error submitting diabetes test:", error);
     } finally {
@@ -149,26 +392,33 @@ function DiabetesTestModal({
             <Label htmlFor="pregnancies">Pregnancies</Label>
             <Input
               id="pregnancies"
+              aria-invalid={!!fieldErrors.pregnancies}
               type="number"
               min="0"
               value={formData.pregnancies}
               onChange={(e) => handleInputChange("pregnancies", e.target.value)}
             />
+            <FieldErrorMessage message={fieldErrors.pregnancies} />
+            <PrefillLabel prefill={prefilled.pregnancies} />
           </div>
           <div>
             <Label htmlFor="glucose">Glucose (mg/dL)</Label>
             <Input
               id="glucose"
+              aria-invalid={!!fieldErrors.glucose}
               type="number"
               min="0"
               value={formData.glucose}
               onChange={(e) => handleInputChange("glucose", e.target.value)}
             />
+            <FieldErrorMessage message={fieldErrors.glucose} />
+            <PrefillLabel prefill={prefilled.glucose} />
           </div>
           <div>
             <Label htmlFor="blood_pressure">Blood Pressure (mmHg)</Label>
             <Input
               id="blood_pressure"
+              aria-invalid={!!fieldErrors.blood_pressure}
               type="number"
               min="0"
               value={formData.blood_pressure}
@@ -176,11 +426,14 @@ function DiabetesTestModal({
                 handleInputChange("blood_pressure", e.target.value)
               }
             />
+            <FieldErrorMessage message={fieldErrors.blood_pressure} />
+            <PrefillLabel prefill={prefilled.blood_pressure} />
           </div>
           <div>
             <Label htmlFor="skin_thickness">Skin Thickness (mm)</Label>
             <Input
               id="skin_thickness"
+              aria-invalid={!!fieldErrors.skin_thickness}
               type="number"
               min="0"
               value={formData.skin_thickness}
@@ -188,27 +441,35 @@ function DiabetesTestModal({
                 handleInputChange("skin_thickness", e.target.value)
               }
             />
+            <FieldErrorMessage message={fieldErrors.skin_thickness} />
+            <PrefillLabel prefill={prefilled.skin_thickness} />
           </div>
           <div>
             <Label htmlFor="insulin">Insulin (μU/mL)</Label>
             <Input
               id="insulin"
+              aria-invalid={!!fieldErrors.insulin}
               type="number"
               min="0"
               value={formData.insulin}
               onChange={(e) => handleInputChange("insulin", e.target.value)}
             />
+            <FieldErrorMessage message={fieldErrors.insulin} />
+            <PrefillLabel prefill={prefilled.insulin} />
           </div>
           <div>
             <Label htmlFor="bmi">BMI</Label>
             <Input
               id="bmi"
+              aria-invalid={!!fieldErrors.bmi}
               type="number"
               min="0"
               step="0.1"
               value={formData.bmi}
               onChange={(e) => handleInputChange("bmi", e.target.value)}
             />
+            <FieldErrorMessage message={fieldErrors.bmi} />
+            <PrefillLabel prefill={prefilled.bmi} />
           </div>
           <div>
             <Label htmlFor="diabetes_pedigree">
@@ -216,6 +477,7 @@ function DiabetesTestModal({
             </Label>
             <Input
               id="diabetes_pedigree"
+              aria-invalid={!!fieldErrors.diabetes_pedigree}
               type="number"
               min="0"
               step="0.01"
@@ -224,19 +486,26 @@ function DiabetesTestModal({
                 handleInputChange("diabetes_pedigree", e.target.value)
               }
             />
+            <FieldErrorMessage message={fieldErrors.diabetes_pedigree} />
+            <PrefillLabel prefill={prefilled.diabetes_pedigree} />
           </div>
           <div>
             <Label htmlFor="age">Age (years)</Label>
             <Input
               id="age"
+              aria-invalid={!!fieldErrors.age}
               type="number"
               min="0"
               value={formData.age}
               onChange={(e) => handleInputChange("age", e.target.value)}
             />
+            <FieldErrorMessage message={fieldErrors.age} />
+            <PrefillLabel prefill={prefilled.age} />
           </div>
         </div>
 
+        {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
         {result && (
           <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <h3 className="font-semibold text-blue-900 mb-2">
@@ -253,13 +522,27 @@ function DiabetesTestModal({
                 <strong>Probability:</strong>{" "}
                 {(result.probability * 100).toFixed(2)}%
               </p>
+              {result.modelVersion && (
+                <p>
+                  <strong>Model:</strong> {result.model} v{result.modelVersion}
+                </p>
+              )}
               {result.message && (
                 <p>
                   <strong>Note:</strong> {result.message}
                 </p>
               )}
+              <FallbackNotice source={result.source} />
+              {result.predictedAt && (
+                <p>
+                  <strong>Saved:</strong>{" "}
+                  {new Date(result.predictedAt).toLocaleString()}
+                </p>
+              )}
             </div>
 
+            <ContributionList contributions={result.contributions} />
+
             {/* Show appointment booking if probability > 50% */}
             {result.probability > 0.5 && (
               <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -267,43 +550,12 @@ function DiabetesTestModal({
                   ⚠️ High risk detected. We recommend scheduling an appointment
                   with a doctor.
                 </p>
-                <Button
-                  onClick={async () => {
-                    try {
-                      const response = await fetch("/api/appointments", {
-                        method: "POST",
-                        headers: {
-                          "Content-Type": "application/json",
-                        },
-                        body: JSON.stringify({
-                          userId: diagnostic?.user_id,
-                          diagnosticId: test.diagnostic_id,
-                        }),
-                      });
-
-                      const data = await response.json();
-
-                      if (response.ok) {
-                        alert(
-                          "✅ Appointment scheduled successfully! Check the appointments section below or visit /appointments to manage it."
-                        );
-                        onAppointmentBooked?.();
-                      } else {
-                        alert(
-                          "❌ Failed to submit appointment request. Please try again."
-                        );
-                      }
-                    } catch (error) {
-                      console.error("Error booking appointment:", error);
-                      alert(
-                        "❌ Error submitting appointment request. Please try again."
-                      );
-                    }
-                  }}
-                  className="w-full bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white"
-                >
-                  📅 Schedule Doctor Appointment
-                </Button>
+                <BookAppointment
+                  userId={diagnostic?.user_id}
+                  diagnosticId={test.diagnostic_id}
+                  buttonLabel="📅 Schedule Doctor Appointment"
+                  onBooked={onAppointmentBooked}
+                />
               </div>
             )}
           </div>
@@ -331,11 +583,13 @@ function CardiovascularTestModal({
   diagnostic,
   onClose,
   onAppointmentBooked,
+  onResultSaved,
 }: {
   test: TestRecord;
   diagnostic: DiagnosticRecord;
   onClose: () => void;
   onAppointmentBooked?: () => void;
+  onResultSaved?: () => void;
 }) {
   const [formData, setFormData] = useState<CardiovascularFormData>({
     age: 0,
@@ -351,9 +605,33 @@ function CardiovascularTestModal({
     diaBP: 0,
     BMI: 0,
     heartRate: 0,
+    ...(test.result?.inputs as Partial<CardiovascularFormData>),
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [result, setResult] = useState<MLResponse | null>(null);
+  const [result, setResult] = useState<MLResponse | null>(() =>
+    getStoredResult(test)
+  );
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [prefilled, setPrefilled] = useState<Record<string, PrefillValue>>({});
+  const touchedFields = useRef(new Set<string>());
+
+  const prefill = usePredictionPrefill(
+    "heart",
+    diagnostic.user_id,
+    !test.result
+  );
+
+  useEffect(() => {
+    const fields = untouchedPrefill(prefill, touchedFields.current);
+    setFormData((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        Object.entries(fields).map(([field, { value }]) => [field, value])
+      ),
+    }));
+    setPrefilled(fields);
+  }, [prefill]);
 
   const handleInputChange = (
     field: keyof CardiovascularFormData,
@@ -364,6 +642,8 @@ function CardiovascularTestModal({
       [field]:
         typeof value === "string" ? value : parseFloat(value.toString()) || 0,
     }));
+    touchedFields.current.add(field);
+    setPrefilled((prev) => withoutPrefill(prev, field));
   };
 
   const handleSubmit = async () => {
@@ -380,7 +660,7 @@ function CardiovascularTestModal({
         diabetes: Number(formData.diabetes) === 1 ? 1 : 0,
       };
 
-      const response = await fetch("/api/predict-heart", {
+      const response = await fetch("/api/predict/heart", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -392,7 +672,19 @@ function CardiovascularTestModal({
       });
 
       const data = await response.json();
+
+      if (!response.ok) {
+        setFieldErrors(toFieldErrorMap(data.fieldErrors));
+        setSubmitError(
+          data.fieldErrors ? null : data.error || "Failed to get prediction"
+        );
+        return;
+      }
+
+      setFieldErrors({});
+      setSubmitError(null);
       setResult(data);
+      onResultSaved?.();
     } catch (error) {
       console.error("Error submitting cardiovascular test:", error);
     } finally {
@@ -412,6 +704,7 @@ function CardiovascularTestModal({
             <Label htmlFor="age">Age</Label>
             <Input
               id="age"
+              aria-invalid={!!fieldErrors.age}
               className="mt-2"
               type="number"
               min="0"
@@ -419,12 +712,15 @@ function CardiovascularTestModal({
               value={formData.age}
               onChange={(e) => handleInputChange("age", e.target.value)}
             />
+            <FieldErrorMessage message={fieldErrors.age} />
+            <PrefillLabel prefill={prefilled.age} />
           </div>
 
           <div>
             <Label htmlFor="sex">Sex</Label>
             <select
               id="sex"
+              aria-invalid={!!fieldErrors.sex}
               value={formData.sex}
               onChange={(e) => handleInputChange("sex", e.target.value)}
               className="mt-2 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
@@ -432,12 +728,15 @@ function CardiovascularTestModal({
               <option value="M">Male</option>
               <option value="F">Female</option>
             </select>
+            <FieldErrorMessage message={fieldErrors.sex} />
+            <PrefillLabel prefill={prefilled.sex} />
           </div>
 
           <div>
             <Label htmlFor="is_smoking">Smoking Status</Label>
             <select
               id="is_smoking"
+              aria-invalid={!!fieldErrors.is_smoking}
               value={formData.is_smoking}
               onChange={(e) => handleInputChange("is_smoking", e.target.value)}
               className="mt-2 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
@@ -445,24 +744,30 @@ function CardiovascularTestModal({
               <option value="NO">No</option>
               <option value="YES">Yes</option>
             </select>
+            <FieldErrorMessage message={fieldErrors.is_smoking} />
+            <PrefillLabel prefill={prefilled.is_smoking} />
           </div>
 
           <div>
             <Label htmlFor="cigsPerDay">Cigarettes Per Day</Label>
             <Input
               id="cigsPerDay"
+              aria-invalid={!!fieldErrors.cigsPerDay}
               className="mt-2"
               type="number"
               min="0"
               value={formData.cigsPerDay}
               onChange={(e) => handleInputChange("cigsPerDay", e.target.value)}
             />
+            <FieldErrorMessage message={fieldErrors.cigsPerDay} />
+            <PrefillLabel prefill={prefilled.cigsPerDay} />
           </div>
 
           <div>
             <Label htmlFor="BPMeds">BP Medications</Label>
             <select
               id="BPMeds"
+              aria-invalid={!!fieldErrors.BPMeds}
               value={formData.BPMeds}
               onChange={(e) => handleInputChange("BPMeds", e.target.value)}
               className="mt-2 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
@@ -470,12 +775,15 @@ function CardiovascularTestModal({
               <option value={0}>No</option>
               <option value={1}>Yes</option>
             </select>
+            <FieldErrorMessage message={fieldErrors.BPMeds} />
+            <PrefillLabel prefill={prefilled.BPMeds} />
           </div>
 
           <div>
             <Label htmlFor="prevalentStroke">Previous Stroke</Label>
             <select
               id="prevalentStroke"
+              aria-invalid={!!fieldErrors.prevalentStroke}
               value={formData.prevalentStroke}
               onChange={(e) =>
                 handleInputChange("prevalentStroke", e.target.value)
@@ -485,12 +793,15 @@ function CardiovascularTestModal({
               <option value={0}>No</option>
               <option value={1}>Yes</option>
             </select>
+            <FieldErrorMessage message={fieldErrors.prevalentStroke} />
+            <PrefillLabel prefill={prefilled.prevalentStroke} />
           </div>
 
           <div>
             <Label htmlFor="prevalentHyp">Hypertension</Label>
             <select
               id="prevalentHyp"
+              aria-invalid={!!fieldErrors.prevalentHyp}
               value={formData.prevalentHyp}
               onChange={(e) =>
                 handleInputChange("prevalentHyp", e.target.value)
@@ -500,12 +811,15 @@ function CardiovascularTestModal({
               <option value={0}>No</option>
               <option value={1}>Yes</option>
             </select>
+            <FieldErrorMessage message={fieldErrors.prevalentHyp} />
+            <PrefillLabel prefill={prefilled.prevalentHyp} />
           </div>
 
           <div>
             <Label htmlFor="diabetes">Diabetes</Label>
             <select
               id="diabetes"
+              aria-invalid={!!fieldErrors.diabetes}
               value={formData.diabetes}
               onChange={(e) => handleInputChange("diabetes", e.target.value)}
               className="mt-2 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
@@ -513,48 +827,60 @@ function CardiovascularTestModal({
               <option value={0}>No</option>
               <option value={1}>Yes</option>
             </select>
+            <FieldErrorMessage message={fieldErrors.diabetes} />
+            <PrefillLabel prefill={prefilled.diabetes} />
           </div>
 
           <div>
             <Label htmlFor="totChol">Total Cholesterol (mg/dL)</Label>
             <Input
               id="totChol"
+              aria-invalid={!!fieldErrors.totChol}
               className="mt-2"
               type="number"
               min="0"
               value={formData.totChol}
               onChange={(e) => handleInputChange("totChol", e.target.value)}
             />
+            <FieldErrorMessage message={fieldErrors.totChol} />
+            <PrefillLabel prefill={prefilled.totChol} />
           </div>
 
           <div>
             <Label htmlFor="sysBP">Systolic BP (mmHg)</Label>
             <Input
               id="sysBP"
+              aria-invalid={!!fieldErrors.sysBP}
               className="mt-2"
               type="number"
               min="0"
               value={formData.sysBP}
               onChange={(e) => handleInputChange("sysBP", e.target.value)}
             />
+            <FieldErrorMessage message={fieldErrors.sysBP} />
+            <PrefillLabel prefill={prefilled.sysBP} />
           </div>
 
           <div>
             <Label htmlFor="diaBP">Diastolic BP (mmHg)</Label>
             <Input
               id="diaBP"
+              aria-invalid={!!fieldErrors.diaBP}
               className="mt-2"
               type="number"
               min="0"
               value={formData.diaBP}
               onChange={(e) => handleInputChange("diaBP", e.target.value)}
             />
+            <FieldErrorMessage message={fieldErrors.diaBP} />
+            <PrefillLabel prefill={prefilled.diaBP} />
           </div>
 
           <div>
             <Label htmlFor="BMI">BMI</Label>
             <Input
               id="BMI"
+              aria-invalid={!!fieldErrors.BMI}
               className="mt-2"
               type="number"
               min="0"
@@ -562,21 +888,28 @@ function CardiovascularTestModal({
               value={formData.BMI}
               onChange={(e) => handleInputChange("BMI", e.target.value)}
             />
+            <FieldErrorMessage message={fieldErrors.BMI} />
+            <PrefillLabel prefill={prefilled.BMI} />
           </div>
 
           <div>
             <Label htmlFor="heartRate">Heart Rate (bpm)</Label>
             <Input
               id="heartRate"
+              aria-invalid={!!fieldErrors.heartRate}
               className="mt-2"
               type="number"
               min="0"
               value={formData.heartRate}
               onChange={(e) => handleInputChange("heartRate", e.target.value)}
             />
+            <FieldErrorMessage message={fieldErrors.heartRate} />
+            <PrefillLabel prefill={prefilled.heartRate} />
           </div>
         </div>
 
+        {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
         {result && (
           <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <h3 className="font-semibold text-blue-900 mb-2">
@@ -593,13 +926,27 @@ function CardiovascularTestModal({
                 <strong>Probability:</strong>{" "}
                 {(result.probability * 100).toFixed(2)}%
               </p>
+              {result.modelVersion && (
+                <p>
+                  <strong>Model:</strong> {result.model} v{result.modelVersion}
+                </p>
+              )}
               {result.message && (
                 <p>
                   <strong>Note:</strong> {result.message}
                 </p>
               )}
+              <FallbackNotice source={result.source} />
+              {result.predictedAt && (
+                <p>
+                  <strong>Saved:</strong>{" "}
+                  {new Date(result.predictedAt).toLocaleString()}
+                </p>
+              )}
             </div>
 
+            <ContributionList contributions={result.contributions} />
+
             {/* Show appointment booking if high risk detected */}
             {result.probability > 0.5 && (
               <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -607,43 +954,12 @@ function CardiovascularTestModal({
                   ⚠️ High cardiovascular risk detected. We recommend scheduling
                   an appointment with a cardiologist.
                 </p>
-                <Button
-                  onClick={async () => {
-                    try {
-                      const response = await fetch("/api/appointments", {
-                        method: "POST",
-                        headers: {
-                          "Content-Type": "application/json",
-                        },
-                        body: JSON.stringify({
-                          userId: diagnostic?.user_id,
-                          diagnosticId: test.diagnostic_id,
-                        }),
-                      });
-
-                      const data = await response.json();
-
-                      if (response.ok) {
-                        alert(
-                          "✅ Appointment scheduled successfully! Check the appointments section below or visit /appointments to manage it."
-                        );
-                        onAppointmentBooked?.();
-                      } else {
-                        alert(
-                          "❌ Failed to submit appointment request. Please try again."
-                        );
-                      }
-                    } catch (error) {
-                      console.error("Error booking appointment:", error);
-                      alert(
-                        "❌ Error submitting appointment request. Please try again."
-                      );
-                    }
-                  }}
-                  className="w-full bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white"
-                >
-                  📅 Schedule Cardiologist Appointment
-                </Button>
+                <BookAppointment
+                  userId={diagnostic?.user_id}
+                  diagnosticId={test.diagnostic_id}
+                  buttonLabel="📅 Schedule Cardiologist Appointment"
+                  onBooked={onAppointmentBooked}
+                />
               </div>
             )}
           </div>
@@ -668,63 +984,88 @@ function CardiovascularTestModal({
 
 function TestResultModal({
   test,
+  catalogTest,
   diagnostic,
   onClose,
   onAppointmentBooked,
+  onResultSaved,
 }: {
   test: TestRecord;
+  catalogTest?: MedicalTest; // Decides how results are entered
   diagnostic: DiagnosticRecord;
   onClose: () => void;
   onAppointmentBooked?: () => void;
+  onResultSaved?: () => void;
 }) {
-  if (test.test_id === "fasting_glucose_blood_test") {
+  // Tests linked to an ML model are scored from the model's inputs
+  if (catalogTest?.mlModel === "diabetes") {
     return (
       <DiabetesTestModal
         test={test}
         diagnostic={diagnostic}
         onClose={onClose}
         onAppointmentBooked={onAppointmentBooked}
+        onResultSaved={onResultSaved}
       />
     );
   }
 
-  if (test.test_id === "cardiovascular_risk_panel") {
+  if (catalogTest?.mlModel === "heart") {
     return (
       <CardiovascularTestModal
         test={test}
         diagnostic={diagnostic}
         onClose={onClose}
         onAppointmentBooked={onAppointmentBooked}
+        onResultSaved={onResultSaved}
       />
     );
   }
 
-  // Default modal for other tests
+  // Other tests: structured lab values where the test has a schema, and the
+  // lab report file
+  const labSchema = catalogTest ? getTestLabSchema(catalogTest) : null;
+
   return (
-    <DialogContent className="sm:max-w-md">
+    <DialogContent
+      className={
+        labSchema ? "max-w-2xl max-h-[80vh] overflow-y-auto" : "sm:max-w-md"
+      }
+    >
       <DialogHeader>
         <DialogTitle>Test Results - {test.test_name}</DialogTitle>
       </DialogHeader>
 
-      <div className="space-y-4">
-        <div className="space-y-2">
-          <Label htmlFor="test-results">Test Results</Label>
-          <Input
-            id="test-results"
-            placeholder="Enter test results..."
-            className="min-h-[100px]"
+      {labSchema ? (
+        <div className="space-y-6">
+          <LabValuesForm
+            testId={test.id}
+            schema={labSchema}
+            stored={test.lab_values}
+            onSaved={onResultSaved}
+            onCancel={onClose}
           />
+          <div className="border-t border-gray-200 pt-4">
+            <h3 className="text-sm font-medium text-gray-900 mb-3">
+              Lab report file
+            </h3>
+            <LabResultUpload
+              testId={test.id}
+              currentFileName={test.result_file_name}
+              hasFile={!!test.result_file}
+              onUploaded={onResultSaved}
+            />
+          </div>
         </div>
-
-        <div className="flex gap-2 pt-4">
-          <Button variant="outline" onClick={onClose} className="flex-1">
-            Cancel
-          </Button>
-          <Button className="flex-1 bg-gradient-to-r from-purple-400 to-pink-400 hover:from-purple-500 hover:to-pink-500">
-            Save Results
-          </Button>
-        </div>
-      </div>
+      ) : (
+        <LabResultUpload
+          testId={test.id}
+          currentFileName={test.result_file_name}
+          hasFile={!!test.result_file}
+          onUploaded={onResultSaved}
+          onCancel={onClose}
+        />
+      )}
     </DialogContent>
   );
 }
@@ -738,6 +1079,8 @@ export default function DiagnosticDetailsPage() {
   const [appointmentsLoading, setAppointmentsLoading] = useState(false);
   const [loading, setLoading] = useState(true);
   const [selectedTest, setSelectedTest] = useState<TestRecord | null>(null);
+  // Catalog entries for this diagnostic's tests, retired tests included
+  const [catalog, setCatalog] = useState<MedicalTest[]>(MEDICAL_TESTS);
 
   const refreshAppointments = async () => {
     if (!id) return;
@@ -760,6 +1103,24 @@ export default function DiagnosticDetailsPage() {
     }
   };
 
+  const refreshTests = async () => {
+    if (!id) return;
+    try {
+      const { data: testsData, error: testsError } = await supabase
+        .from("tests")
+        .select(
+          "id, diagnostic_id, test_name, status, result_file, result_file_name, test_id, result, lab_values, completed_at"
+        )
+        .eq("diagnostic_id", id);
+
+      if (!testsError) {
+        setTests(testsData || []);
+      }
+    } catch (error) {
+      console.error("Error refreshing tests:", error);
+    }
+  };
+
   useEffect(() => {
     if (!id) return;
 
@@ -780,7 +1141,9 @@ export default function DiagnosticDetailsPage() {
         // Fetch tests
         const { data: testsData, error: testsError } = await supabase
           .from("tests")
-          .select("id, diagnostic_id, test_name, status, result_file, test_id")
+          .select(
+            "id, diagnostic_id, test_name, status, result_file, result_file_name, test_id, result, lab_values, completed_at"
+          )
           .eq("diagnostic_id", id);
 
         if (testsError) {
@@ -812,6 +1175,33 @@ export default function DiagnosticDetailsPage() {
     fetchData();
   }, [id]);
 
+  const catalogIds = Array.from(new Set(tests.map((test) => test.test_id)))
+    .sort()
+    .join(",");
+
+  useEffect(() => {
+    if (!catalogIds) return;
+
+    const fetchCatalog = async () => {
+      try {
+        const response = await fetch(
+          `/api/test-catalog?ids=${encodeURIComponent(catalogIds)}`
+        );
+        const data = await response.json();
+
+        if (response.ok && Array.isArray(data.tests)) {
+          setCatalog(data.tests);
+        } else {
+          console.error("Error fetching test catalog:", data.error);
+        }
+      } catch (error) {
+        console.error("Error fetching test catalog:", error);
+      }
+    };
+
+    fetchCatalog();
+  }, [catalogIds]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -839,6 +1229,15 @@ export default function DiagnosticDetailsPage() {
     minute: "2-digit",
   });
 
+  // Models with a stored prediction on this diagnostic get a trend view,
+  // refreshed whenever a prediction is saved
+  const trendModels = Array.from(
+    new Set(tests.flatMap((test) => (test.result ? [test.result.model] : [])))
+  );
+  const trendRefreshKey = tests
+    .map((test) => test.result?.predictedAt || "")
+    .join(",");
+
   return (
     <div className="min-h-screen bg-gray-50 p-4">
       <div className="w-full">
@@ -875,6 +1274,45 @@ export default function DiagnosticDetailsPage() {
                 <p className="text-gray-800 font-medium">
                   {diagnostic.symptom}
                 </p>
+                {diagnostic.symptom_details && (
+                  <dl className="mt-3 grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                    <div>
+                      <dt className="text-gray-500">Onset</dt>
+                      <dd className="text-gray-800 capitalize">
+                        {diagnostic.symptom_details.onset}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">Duration</dt>
+                      <dd className="text-gray-800">
+                        {diagnostic.symptom_details.duration}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">Severity</dt>
+                      <dd className="text-gray-800">
+                        {diagnostic.symptom_details.severity}/10
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">Location</dt>
+                      <dd className="text-gray-800">
+                        {diagnostic.symptom_details.location || "Not specified"}
+                      </dd>
+                    </div>
+                    {diagnostic.symptom_details.associatedSymptoms.length >
+                      0 && (
+                      <div className="col-span-2">
+                        <dt className="text-gray-500">Associated symptoms</dt>
+                        <dd className="text-gray-800">
+                          {diagnostic.symptom_details.associatedSymptoms.join(
+                            ", "
+                          )}
+                        </dd>
+                      </div>
+                    )}
+                  </dl>
+                )}
               </div>
             </div>
 
@@ -941,11 +1379,25 @@ export default function DiagnosticDetailsPage() {
                             {test.test_id}
                           </span>
                         </div>
+                        {test.result && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-600">Risk:</span>
+                            <span className="font-medium text-gray-900">
+                              {(test.result.probability * 100).toFixed(1)}%
+                            </span>
+                          </div>
+                        )}
+                        {test.lab_values && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-600">Lab values:</span>
+                            <LabValuesSummary labResult={test.lab_values} />
+                          </div>
+                        )}
                         {test.result_file && (
                           <div className="flex justify-between text-sm">
                             <span className="text-gray-600">Results:</span>
                             <a
-                              href={test.result_file}
+                              href={`/api/tests/${test.id}/result-file`}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-purple-600 hover:text-purple-800 font-medium"
@@ -957,11 +1409,17 @@ export default function DiagnosticDetailsPage() {
                       </div>
 
                       <div className="flex gap-2">
-                        {test.status === "completed" && test.result_file && (
-                          <button className="flex-1 bg-gradient-to-r from-green-400 to-green-500 text-white py-2 px-3 rounded-lg text-sm font-medium hover:from-green-500 hover:to-green-600 transition-colors">
-                            View Results
-                          </button>
-                        )}
+                        {test.status === "completed" &&
+                          (test.result_file ||
+                            test.result ||
+                            test.lab_values) && (
+                            <button
+                              onClick={() => setSelectedTest(test)}
+                              className="flex-1 bg-gradient-to-r from-green-400 to-green-500 text-white py-2 px-3 rounded-lg text-sm font-medium hover:from-green-500 hover:to-green-600 transition-colors"
+                            >
+                              View Results
+                            </button>
+                          )}
                         {test.status === "pending" && (
                           <Button
                             size="sm"
@@ -985,6 +1443,25 @@ export default function DiagnosticDetailsPage() {
                 </div>
               )}
             </div>
+
+            {/* Risk Trend across repeated screenings */}
+            {trendModels.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  📈 Risk Trend
+                </h2>
+                {trendModels.map((modelId) => (
+                  <RiskTrend
+                    key={modelId}
+                    userId={diagnostic.user_id}
+                    model={modelId}
+                    title={`${getMLModel(modelId)?.name || modelId} risk`}
+                    currentDiagnosticId={diagnostic.id}
+                    refreshKey={trendRefreshKey}
+                  />
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Sidebar */}
@@ -1285,9 +1762,11 @@ export default function DiagnosticDetailsPage() {
         >
           <TestResultModal
             test={selectedTest}
+            catalogTest={findMedicalTest(selectedTest.test_id, catalog)}
             diagnostic={diagnostic}
             onClose={() => setSelectedTest(null)}
             onAppointmentBooked={refreshAppointments}
+            onResultSaved={refreshTests}
           />
         </Dialog>
       )}
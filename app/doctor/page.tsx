@@ -1,4 +1,12 @@
+import { auth } from "@clerk/nextjs/server";
 import { createSupabaseServerClient } from "@/utils/supabase/server";
+import { isClinician } from "@/lib/admin";
+import { getOpenAlerts } from "@/lib/alerts";
+import AcknowledgeAlertButton from "@/components/AcknowledgeAlertButton";
+import { TestAlert } from "@/types/alert";
+
+// Render per request so new alerts and acknowledgements show immediately
+export const dynamic = "force-dynamic";
 
 interface ConfirmedAppointment {
   id: string;
@@ -168,9 +176,21 @@ async function getAppointmentStats() {
   }
 }
 
+async function getUnacknowledgedAlerts(): Promise<TestAlert[]> {
+  try {
+    return await getOpenAlerts();
+  } catch (error) {
+    console.error("Error fetching test alerts:", error);
+    return [];
+  }
+}
+
 export default async function DoctorDashboard() {
   const appointments = await getConfirmedAppointments();
   const stats = await getAppointmentStats();
+  const alerts = await getUnacknowledgedAlerts();
+  const { userId } = await auth();
+  const canAcknowledge = isClinician(userId);
 
   return (
     <div className="min-h-screen bg-gray-50 p-4">
@@ -262,6 +282,68 @@ export default async function DoctorDashboard() {
           </div>
         </div>
 
+        {/* Unacknowledged Test Alerts */}
+        {alerts.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-red-200 overflow-hidden mb-6">
+            <div className="px-6 py-4 border-b border-red-200 bg-red-50">
+              <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+                🚨 Test Result Alerts
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Abnormal results awaiting review ({alerts.length} open)
+              </p>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {alerts.map((testAlert) => (
+                <li
+                  key={testAlert.id}
+                  className="px-6 py-4 flex items-start justify-between gap-4"
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                          testAlert.severity === "critical"
+                            ? "bg-red-100 text-red-800"
+                            : "bg-yellow-100 text-yellow-800"
+                        }`}
+                      >
+                        {testAlert.severity === "critical"
+                          ? "Critical"
+                          : "Warning"}
+                      </span>
+                      <span className="text-sm font-medium text-gray-900">
+                        {testAlert.patientName || testAlert.userId} —{" "}
+                        {testAlert.testName}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-700 mt-1">
+                      {testAlert.message}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Raised {new Date(testAlert.createdAt).toLocaleString()}
+                      {" · "}
+                      {testAlert.patientNotifiedAt
+                        ? "Patient emailed"
+                        : "Patient not emailed"}
+                      {" · "}
+                      <a
+                        href={`/diagnostics/${testAlert.diagnosticId}`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        View diagnostic
+                      </a>
+                    </p>
+                  </div>
+                  {canAcknowledge && (
+                    <AcknowledgeAlertButton alertId={testAlert.id} />
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Confirmed Appointments Table */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-green-50 to-blue-50">
@@ -0,0 +1,56 @@
+"use client";
+
+// React
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+// ShadCn
+import { Button } from "@/components/ui/button";
+
+// Type Definitions
+interface AcknowledgeAlertButtonProps {
+  alertId: string;
+}
+
+export default function AcknowledgeAlertButton({
+  alertId,
+}: AcknowledgeAlertButtonProps) {
+  const router = useRouter();
+
+  // States
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleAcknowledge = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/alerts/${alertId}/acknowledge`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(`❌ ${data.error || "Failed to acknowledge alert"}`);
+        return;
+      }
+
+      // Reload the dashboard's alert list
+      router.refresh();
+    } catch (error) {
+      console.error("Error acknowledging alert:", error);
+      alert("❌ Failed to acknowledge alert. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={handleAcknowledge}
+      disabled={isSaving}
+    >
+      {isSaving ? "Saving..." : "Acknowledge"}
+    </Button>
+  );
+}
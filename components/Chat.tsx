@@ -1,34 +1,51 @@
 "use client";
 
 // React
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 
 // Next
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 
 // Clerk
 import { useUser } from "@clerk/nextjs";
 
 // Components
 import MedicalInfoDialog from "./MedicalInfoDialog";
+import SymptomIntake from "./SymptomIntake";
 import { MedicalInfoProvider } from "@/context/MedicalInfoContext";
 
+// Lib
+import { ChatStreamError, readServerSentEvents } from "@/lib/chat-stream";
+import { describeStructuredSymptom } from "@/lib/symptom-intake";
+
 // Types
-import { DiagnosticPayload } from "@/types/medical";
+import { DiagnosticPayload, StructuredSymptom } from "@/types/medical";
+import {
+  ChatErrorCode,
+  ChatMessage as Message,
+  ChatResponse,
+  EmergencyResponse,
+  StoredChatMessage,
+  WorkerResponse,
+} from "@/types/chat";
+import { SlotConflict } from "@/types/availability";
+
+// Constants
+const CHAT_ERROR_MESSAGES: Record<ChatErrorCode, string> = {
+  WORKER_UNAVAILABLE: "Sorry, I'm having trouble connecting. Please try again.",
+  WORKER_INVALID_RESPONSE:
+    "Sorry, I received a response I couldn't understand. Please try again.",
+  WORKER_INVALID_TYPE:
+    "Sorry, I received a response I couldn't understand. Please try again.",
+  WORKER_UNKNOWN_TEST:
+    "Sorry, I suggested a test that isn't available. Please describe your symptoms again or book a doctor appointment.",
+  WORKER_EMPTY_REPLY:
+    "Sorry, I couldn't come up with a reply. Please try again.",
+  STREAM_FAILED:
+    "Sorry, the reply was interrupted. Please try sending your message again.",
+};
 
 // Type Definitions
-interface Message {
-  role: "user" | "assistant";
-  content: string;
-}
-
-interface WorkerResponse {
-  type: "test" | "doctor" | "none";
-  testName?: string;
-  testId?: string;
-  reply: string;
-}
-
 interface ChatProps {
   user?: {
     firstName?: string | null;
@@ -46,12 +63,165 @@ export default function Chat({ user, displayName }: ChatProps) {
   const [currentWorkerResponse, setCurrentWorkerResponse] =
     useState<WorkerResponse | null>(null);
   const [currentUserSymptom, setCurrentUserSymptom] = useState("");
+  const [currentIntake, setCurrentIntake] = useState<StructuredSymptom | null>(
+    null
+  );
+  const [isIntakeMode, setIsIntakeMode] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [shareHistory, setShareHistory] = useState(false);
+  const [emergency, setEmergency] = useState<EmergencyResponse | null>(null);
+
+  // Refs
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const hasSentMessageRef = useRef(false);
+  const conversationIdRef = useRef<string | null>(null);
 
   // Hooks
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { user: clerkUser } = useUser();
 
+  // The active thread is driven by the URL so the sidebar can switch it
+  const threadId = searchParams.get("thread");
+
+  // Effects
+  useEffect(() => {
+    // Cancel any in-flight reply stream when leaving the chat
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    if (!clerkUser?.id) return;
+
+    // Load whether the user shares their medical history with the assistant
+    fetch("/api/chat/consent")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setShareHistory(data?.shareHistory === true))
+      .catch((error) => console.error("Error loading chat consent:", error));
+  }, [clerkUser?.id]);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadThread = async () => {
+      if (!clerkUser?.id) return;
+
+      // Already showing this thread (e.g. the URL caught up after the
+      // thread's first message was sent)
+      if (threadId && threadId === conversationIdRef.current) return;
+
+      // Switching threads: stop any reply still streaming into the old one
+      abortControllerRef.current?.abort();
+      hasSentMessageRef.current = false;
+      selectConversation(threadId);
+      setMessages([]);
+      setEmergency(null);
+      setHistoryCursor(null);
+
+      setIsHistoryLoading(true);
+      try {
+        if (!threadId) {
+          // No thread selected: reopen the most recently active one
+          const response = await fetch(
+            `/api/conversations?userId=${clerkUser.id}&limit=1`
+          );
+          if (!response.ok) return;
+
+          const { conversations } = await response.json();
+
+          // Don't clobber a conversation the user already started
+          if (conversations?.length && !hasSentMessageRef.current) {
+            router.replace(`/dashboard?thread=${conversations[0].id}`);
+          }
+          return;
+        }
+
+        const page = await fetchConversationPage(clerkUser.id, threadId);
+        if (!page || isCancelled || hasSentMessageRef.current) return;
+
+        setMessages(page.messages);
+        setHistoryCursor(page.nextCursor);
+        setEmergency(page.emergency);
+      } catch (error) {
+        console.error("Error loading conversation:", error);
+      } finally {
+        if (!isCancelled) setIsHistoryLoading(false);
+      }
+    };
+
+    loadThread();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [clerkUser?.id, threadId, router]);
+
   // Functions
+  const selectConversation = (id: string | null) => {
+    conversationIdRef.current = id;
+    setConversationId(id);
+  };
+
+  const fetchConversationPage = async (
+    userId: string,
+    id: string,
+    before?: string
+  ) => {
+    const params = new URLSearchParams({ userId });
+    if (before) params.set("before", before);
+
+    const response = await fetch(
+      `/api/conversations/${id}/messages?${params.toString()}`
+    );
+    if (!response.ok) return null;
+
+    const data: {
+      messages: StoredChatMessage[];
+      nextCursor: string | null;
+    } = await response.json();
+
+    // Keep the emergency banner up when reopening a thread that escalated
+    const emergencyMessage = [...data.messages]
+      .reverse()
+      .find(({ metadata }) => metadata?.type === "emergency");
+
+    return {
+      messages: data.messages.map(({ role, content }) => ({ role, content })),
+      nextCursor: data.nextCursor,
+      emergency: emergencyMessage?.metadata?.triageCategory
+        ? ({
+            type: "emergency",
+            triageCategory: emergencyMessage.metadata.triageCategory,
+            reply: emergencyMessage.content,
+          } as EmergencyResponse)
+        : null,
+    };
+  };
+
+  const handleLoadEarlierMessages = async () => {
+    if (!clerkUser?.id || !conversationId || !historyCursor) return;
+
+    setIsHistoryLoading(true);
+    try {
+      const page = await fetchConversationPage(
+        clerkUser.id,
+        conversationId,
+        historyCursor
+      );
+      if (!page) return;
+
+      setMessages((prev) => [...page.messages, ...prev]);
+      setHistoryCursor(page.nextCursor);
+      setEmergency((current) => current || page.emergency);
+    } catch (error) {
+      console.error("Error loading earlier messages:", error);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  };
+
   const handleTestResponse = async (
     workerResponse: WorkerResponse,
     userSymptom: string
@@ -62,9 +232,13 @@ export default function Chat({ user, displayName }: ChatProps) {
     setShowMedicalDialog(true);
   };
 
-  const handleMedicalDialogSubmit = async (payload: DiagnosticPayload) => {
+  // Returns the conflict when the selected slot could not be booked, so the
+  // dialog can stay open and offer other times
+  const handleMedicalDialogSubmit = async (
+    payload: DiagnosticPayload
+  ): Promise<SlotConflict | null> => {
     try {
-      if (!currentWorkerResponse) return;
+      if (!currentWorkerResponse) return null;
 
       // Transform DiagnosticPayload to match existing API structure
       const diagnosticsData = {
@@ -77,7 +251,10 @@ export default function Chat({ user, displayName }: ChatProps) {
           ? [currentWorkerResponse.testId]
           : payload.testSelection.selectedTests, // Use AI testId or fallback to selected tests
         hospital: "Tampa General Hospital",
-        scheduledDate: payload.appointmentInput.preferredDate,
+        scheduledDate: payload.appointmentInput.timeSlot, // Start of the selected slot
+        providerId: payload.appointmentInput.providerId,
+        conversationId, // Link the diagnostic to the chat thread that spawned it
+        symptomDetails: currentIntake, // Structured intake answers, if any
         patientInfo: {
           firstName: payload.medicalInfo.firstName,
           lastName: payload.medicalInfo.lastName,
@@ -102,12 +279,16 @@ export default function Chat({ user, displayName }: ChatProps) {
         body: JSON.stringify(diagnosticsData),
       });
 
+      const diagnostic = await response.json();
+
+      if (response.status === 409) {
+        return diagnostic as SlotConflict;
+      }
+
       if (!response.ok) {
         throw new Error("Failed to create diagnostic entry");
       }
 
-      const diagnostic = await response.json();
-
       // Close dialog and navigate
       setShowMedicalDialog(false);
       setCurrentWorkerResponse(null);
@@ -115,6 +296,7 @@ export default function Chat({ user, displayName }: ChatProps) {
 
       // Navigate to the diagnostic details page
       router.push(`/diagnostics/${diagnostic.id}`);
+      return null;
     } catch (error) {
       console.error("Error creating diagnostics entry:", error);
 
@@ -130,6 +312,7 @@ export default function Chat({ user, displayName }: ChatProps) {
 
       // Close dialog
       setShowMedicalDialog(false);
+      return null;
     }
   };
 
@@ -139,19 +322,54 @@ export default function Chat({ user, displayName }: ChatProps) {
     setCurrentUserSymptom("");
   };
 
-  const handleSendMessage = async () => {
-    if (inputValue.trim() && !isLoading) {
+  const handleSendMessage = () => sendMessage(inputValue);
+
+  const handleIntakeComplete = (intake: StructuredSymptom) => {
+    setIsIntakeMode(false);
+    sendMessage(describeStructuredSymptom(intake), intake);
+  };
+
+  const sendMessage = async (content: string, intake?: StructuredSymptom) => {
+    if (content.trim() && !isLoading) {
       const userMessage: Message = {
         role: "user",
-        content: inputValue.trim(),
+        content: content.trim(),
       };
 
+      hasSentMessageRef.current = true;
+
       // Add user message immediately
-      const currentInput = inputValue.trim();
+      const currentInput = content.trim();
       setMessages((prev) => [...prev, userMessage]);
       setInputValue("");
       setIsLoading(true);
 
+      // Structured details follow the symptom through to the diagnostic;
+      // a free-text message starts over without them
+      setCurrentIntake(intake || null);
+
+      // The assistant message is added with the first reply token and
+      // updated in place as the rest of the stream arrives
+      let hasAssistantMessage = false;
+      const setAssistantMessage = (update: (content: string) => string) => {
+        const isNew = !hasAssistantMessage;
+        hasAssistantMessage = true;
+        setMessages((prev) =>
+          isNew
+            ? [...prev, { role: "assistant", content: update("") }]
+            : [
+                ...prev.slice(0, -1),
+                {
+                  role: "assistant",
+                  content: update(prev[prev.length - 1].content),
+                },
+              ]
+        );
+      };
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
       try {
         // Send request to API
         const response = await fetch("/api/chat", {
@@ -161,26 +379,64 @@ export default function Chat({ user, displayName }: ChatProps) {
           },
           body: JSON.stringify({
             messages: [...messages, userMessage],
+            conversationId,
+            intake,
           }),
+          signal: abortController.signal,
         });
 
-        if (!response.ok) {
-          throw new Error("Failed to get response");
+        if (!response.ok || !response.body) {
+          const errorData = await response.json().catch(() => null);
+          throw new ChatStreamError(
+            errorData?.error || "Failed to get response",
+            errorData?.code || "WORKER_UNAVAILABLE"
+          );
+        }
+
+        // Render reply tokens as they arrive; the structured response is
+        // only available once the stream completes
+        let workerResponse: ChatResponse | null = null;
+
+        for await (const { event, data } of readServerSentEvents(
+          response.body
+        )) {
+          if (event === "token") {
+            const { delta } = JSON.parse(data);
+            setAssistantMessage((content) => content + delta);
+          } else if (event === "done") {
+            workerResponse = JSON.parse(data);
+          } else if (event === "error") {
+            const { error, code } = JSON.parse(data);
+            throw new ChatStreamError(error, code);
+          }
+        }
+
+        if (!workerResponse) {
+          throw new ChatStreamError(
+            "Reply stream ended unexpectedly",
+            "STREAM_FAILED"
+          );
         }
 
-        const workerResponse: WorkerResponse = await response.json();
+        // A new thread was created for this message: select it
+        if (
+          workerResponse.conversationId &&
+          workerResponse.conversationId !== conversationIdRef.current
+        ) {
+          selectConversation(workerResponse.conversationId);
+          router.replace(`/dashboard?thread=${workerResponse.conversationId}`);
+        }
 
-        // Extract only the reply content for display
+        // Replace streamed text with the final reply content
         const replyContent =
           workerResponse.reply || "I'm sorry, I couldn't process your request.";
+        setAssistantMessage(() => replyContent);
 
-        // Add assistant response to messages
-        const assistantMessage: Message = {
-          role: "assistant",
-          content: replyContent,
-        };
-
-        setMessages((prev) => [...prev, assistantMessage]);
+        // Emergency triage: show the escalation banner instead of acting
+        if (workerResponse.type === "emergency") {
+          setEmergency(workerResponse);
+          return;
+        }
 
         // Handle different response types
         if (workerResponse.type === "test") {
@@ -199,19 +455,53 @@ export default function Chat({ user, displayName }: ChatProps) {
           hasReply: !!workerResponse.reply,
         });
       } catch (error) {
+        if (abortController.signal.aborted) {
+          // Keep whatever was streamed before the user stopped the reply
+          setAssistantMessage((content) => content || "Response cancelled.");
+          return;
+        }
+
         console.error("Error sending message:", error);
-        // Add error message
-        const errorMessage: Message = {
-          role: "assistant",
-          content: "Sorry, I'm having trouble connecting. Please try again.",
-        };
-        setMessages((prev) => [...prev, errorMessage]);
+        // Replace the partial reply with an error message
+        setAssistantMessage(() =>
+          error instanceof ChatStreamError
+            ? CHAT_ERROR_MESSAGES[error.code]
+            : CHAT_ERROR_MESSAGES.WORKER_UNAVAILABLE
+        );
       } finally {
+        abortControllerRef.current = null;
         setIsLoading(false);
       }
     }
   };
 
+  const handleShareHistoryChange = async (enabled: boolean) => {
+    if (!clerkUser?.id) return;
+
+    setShareHistory(enabled);
+    try {
+      const response = await fetch("/api/chat/consent", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ shareHistory: enabled }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update consent");
+      }
+    } catch (error) {
+      console.error("Error updating chat consent:", error);
+      setShareHistory(!enabled);
+      alert("❌ Failed to update your sharing preference. Please try again.");
+    }
+  };
+
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
       e.preventDefault();
@@ -235,6 +525,47 @@ export default function Chat({ user, displayName }: ChatProps) {
             </div>
           ) : (
             <>
+              {historyCursor && (
+                <div className="flex justify-center">
+                  <button
+                    onClick={handleLoadEarlierMessages}
+                    disabled={isHistoryLoading}
+                    className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                  >
+                    {isHistoryLoading ? "Loading..." : "Load earlier messages"}
+                  </button>
+                </div>
+              )}
+
+              {/* Emergency banner: stays up for the rest of the thread */}
+              {emergency && (
+                <div
+                  role="alert"
+                  className="sticky top-0 z-10 p-4 bg-red-50 border-2 border-red-500 rounded-xl"
+                >
+                  <p className="text-red-800 text-sm font-bold mb-1">
+                    🚨 This may be a medical emergency
+                  </p>
+                  <p className="text-red-800 text-sm mb-3">{emergency.reply}</p>
+                  <div className="flex flex-wrap gap-2">
+                    <a
+                      href="tel:911"
+                      className="px-3 py-1.5 rounded-lg bg-red-600 text-white text-sm font-medium hover:bg-red-700"
+                    >
+                      Call 911
+                    </a>
+                    {emergency.triageCategory === "suicidal_ideation" && (
+                      <a
+                        href="tel:988"
+                        className="px-3 py-1.5 rounded-lg border border-red-600 text-red-700 text-sm font-medium hover:bg-red-100"
+                      >
+                        Call or text 988
+                      </a>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {messages.map((message, index) => (
                 <div
                   key={index}
@@ -254,8 +585,8 @@ export default function Chat({ user, displayName }: ChatProps) {
                 </div>
               ))}
 
-              {/* Loading indicator */}
-              {isLoading && (
+              {/* Loading indicator until the first reply token arrives */}
+              {isLoading && messages[messages.length - 1]?.role === "user" && (
                 <div className="flex justify-start">
                   <div className="max-w-xs lg:max-w-md px-4 py-2 rounded-2xl bg-gray-100 text-gray-800">
                     <div className="flex items-center space-x-1">
@@ -279,30 +610,62 @@ export default function Chat({ user, displayName }: ChatProps) {
         {/* Input area */}
         <div className="py-4 border-gray-50">
           <div className="w-full">
-            <div className="flex items-center gap-3 bg-gray-50 px-3 py-3 rounded-xl">
-              <input
-                value={inputValue}
-                onChange={(e) => setInputValue(e.target.value)}
-                onKeyPress={handleKeyPress}
-                className="flex-1 bg-transparent outline-none text-sm"
-                placeholder="Ask something.."
-              />
-              <button
-                onClick={handleSendMessage}
+            {isIntakeMode ? (
+              <SymptomIntake
+                onComplete={handleIntakeComplete}
+                onCancel={() => setIsIntakeMode(false)}
                 disabled={isLoading}
-                className={`h-8 w-8 rounded-full flex items-center justify-center transition-colors ${
-                  isLoading
-                    ? "bg-gray-400 cursor-not-allowed"
-                    : "bg-black text-white hover:bg-gray-800"
-                }`}
-              >
-                {isLoading ? (
-                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                ) : (
-                  "↑"
-                )}
-              </button>
-            </div>
+              />
+            ) : (
+              <>
+                <div className="flex items-center gap-3 bg-gray-50 px-3 py-3 rounded-xl">
+                  <input
+                    value={inputValue}
+                    onChange={(e) => setInputValue(e.target.value)}
+                    onKeyPress={handleKeyPress}
+                    className="flex-1 bg-transparent outline-none text-sm"
+                    placeholder="Ask something.."
+                  />
+                  <button
+                    onClick={
+                      isLoading ? handleStopGenerating : handleSendMessage
+                    }
+                    title={isLoading ? "Stop generating" : "Send"}
+                    className={`h-8 w-8 rounded-full flex items-center justify-center transition-colors ${
+                      isLoading
+                        ? "bg-gray-400 text-white hover:bg-gray-500"
+                        : "bg-black text-white hover:bg-gray-800"
+                    }`}
+                  >
+                    {isLoading ? (
+                      <div className="w-3 h-3 bg-white rounded-sm"></div>
+                    ) : (
+                      "↑"
+                    )}
+                  </button>
+                </div>
+                <button
+                  onClick={() => setIsIntakeMode(true)}
+                  disabled={isLoading}
+                  className="mt-2 px-1 text-xs text-purple-600 hover:text-purple-800 disabled:opacity-50"
+                >
+                  Describe your symptoms step by step
+                </button>
+              </>
+            )}
+            {clerkUser?.id && (
+              <label className="flex items-center gap-2 mt-2 px-1 text-xs text-gray-500 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={shareHistory}
+                  onChange={(e) => handleShareHistoryChange(e.target.checked)}
+                  className="h-3 w-3"
+                />
+                Share my medical history (past diagnostics, test results,
+                allergies and medications) with the assistant for more relevant
+                recommendations
+              </label>
+            )}
           </div>
         </div>
 
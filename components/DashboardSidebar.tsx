@@ -2,13 +2,24 @@
 
 // Next
 import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 
 // Clerk
 import { UserButton, useUser } from "@clerk/nextjs";
 
 // Lucide
-import { Home, LayoutDashboard, Calendar } from "lucide-react";
+import {
+  Home,
+  LayoutDashboard,
+  Calendar,
+  Plus,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+} from "lucide-react";
+
+// Types
+import { ChatConversation } from "@/types/chat";
 
 interface Diagnostic {
   id: string;
@@ -25,18 +36,48 @@ function DashboardSidebar({ displayName }: { displayName?: string }) {
   // States
   const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [threads, setThreads] = useState<ChatConversation[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
 
   // Hooks
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { user: clerkUser } = useUser();
 
+  // Active chat thread, shared with the Chat component through the URL
+  const threadId = searchParams.get("thread");
+
   // Effects
+  useEffect(() => {
+    const fetchThreads = async () => {
+      if (!clerkUser?.id) return;
+
+      try {
+        const response = await fetch(
+          `/api/conversations?userId=${clerkUser.id}&archived=${showArchived}`
+        );
+        if (response.ok) {
+          const data = await response.json();
+          setThreads(data.conversations);
+        }
+      } catch (error) {
+        console.error("Error fetching conversation threads:", error);
+      }
+    };
+
+    fetchThreads();
+  }, [clerkUser?.id, threadId, showArchived]);
+
   useEffect(() => {
     const fetchDiagnostics = async () => {
       if (!clerkUser?.id) return;
 
       try {
-        const response = await fetch(`/api/diagnostics?userId=${clerkUser.id}`);
+        // Only show the diagnostics spawned by the active thread
+        const params = new URLSearchParams({ userId: clerkUser.id });
+        if (threadId) params.set("conversationId", threadId);
+
+        const response = await fetch(`/api/diagnostics?${params.toString()}`);
         if (response.ok) {
           const data = await response.json();
           setDiagnostics(data);
@@ -49,9 +90,80 @@ function DashboardSidebar({ displayName }: { displayName?: string }) {
     };
 
     fetchDiagnostics();
-  }, [clerkUser?.id]);
+  }, [clerkUser?.id, threadId]);
 
   // Functions
+  const updateThread = async (
+    thread: ChatConversation,
+    updates: { title?: string; archived?: boolean }
+  ) => {
+    if (!clerkUser?.id) return null;
+
+    const response = await fetch(`/api/conversations/${thread.id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ userId: clerkUser.id, ...updates }),
+    });
+
+    if (!response.ok) {
+      alert("❌ Failed to update conversation. Please try again.");
+      return null;
+    }
+
+    return (await response.json()) as ChatConversation;
+  };
+
+  const handleNewThread = async () => {
+    if (!clerkUser?.id) return;
+
+    try {
+      const response = await fetch("/api/conversations", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ userId: clerkUser.id }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to create conversation");
+      }
+
+      const thread: ChatConversation = await response.json();
+      setShowArchived(false);
+      router.push(`/dashboard?thread=${thread.id}`);
+    } catch (error) {
+      console.error("Error creating conversation thread:", error);
+      alert("❌ Failed to start a new conversation. Please try again.");
+    }
+  };
+
+  const handleRenameThread = async (thread: ChatConversation) => {
+    const title = window.prompt("Rename conversation", thread.title);
+    if (!title?.trim() || title === thread.title) return;
+
+    const updated = await updateThread(thread, { title });
+    if (updated) {
+      setThreads((prev) =>
+        prev.map((t) => (t.id === updated.id ? updated : t))
+      );
+    }
+  };
+
+  const handleToggleArchiveThread = async (thread: ChatConversation) => {
+    const updated = await updateThread(thread, { archived: !showArchived });
+    if (!updated) return;
+
+    // The thread moves to the other list
+    setThreads((prev) => prev.filter((t) => t.id !== updated.id));
+
+    if (updated.id === threadId) {
+      router.push("/dashboard");
+    }
+  };
+
   const handleDiagnosticClick = (diagnosticId: string) => {
     router.push(`/diagnostics/${diagnosticId}`);
   };
@@ -93,9 +205,99 @@ function DashboardSidebar({ displayName }: { displayName?: string }) {
         </nav>
         <hr className="mx-4" />
 
+        {/* Conversation Threads */}
+        <div className="px-4 mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-xs text-gray-500">
+              {showArchived ? "Archived Conversations" : "Conversations"}
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setShowArchived((prev) => !prev)}
+                title={showArchived ? "Show active" : "Show archived"}
+                className="p-1 rounded hover:bg-gray-100 text-gray-500"
+              >
+                {showArchived ? (
+                  <ArchiveRestore className="w-3.5 h-3.5" />
+                ) : (
+                  <Archive className="w-3.5 h-3.5" />
+                )}
+              </button>
+              <button
+                onClick={handleNewThread}
+                title="New conversation"
+                className="p-1 rounded hover:bg-gray-100 text-gray-500"
+              >
+                <Plus className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {threads.length > 0 ? (
+              threads.map((thread) => (
+                <div
+                  key={thread.id}
+                  onClick={() => router.push(`/dashboard?thread=${thread.id}`)}
+                  className={`group px-3 py-2 rounded-md text-sm cursor-pointer transition-colors ${
+                    thread.id === threadId
+                      ? "bg-purple-50 border border-purple-200"
+                      : "hover:bg-gray-100 border border-transparent"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="font-medium text-gray-800 truncate">
+                      {thread.title}
+                    </div>
+                    <div className="hidden group-hover:flex items-center gap-1 shrink-0">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRenameThread(thread);
+                        }}
+                        title="Rename"
+                        className="p-0.5 rounded text-gray-400 hover:text-gray-700"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleToggleArchiveThread(thread);
+                        }}
+                        title={showArchived ? "Unarchive" : "Archive"}
+                        className="p-0.5 rounded text-gray-400 hover:text-gray-700"
+                      >
+                        {showArchived ? (
+                          <ArchiveRestore className="w-3 h-3" />
+                        ) : (
+                          <Archive className="w-3 h-3" />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                  {thread.diagnosticIds.length > 0 && (
+                    <div className="text-xs text-purple-600 mt-1">
+                      🔬 {thread.diagnosticIds.length} diagnostic
+                      {thread.diagnosticIds.length > 1 ? "s" : ""}
+                    </div>
+                  )}
+                </div>
+              ))
+            ) : (
+              <div className="px-3 py-2 text-sm text-gray-400">
+                {showArchived
+                  ? "No archived conversations"
+                  : "No conversations yet"}
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Diagnostics Information */}
         <div className="px-4 mt-4">
-          <div className="text-xs text-gray-500 mb-2">Diagnostics</div>
+          <div className="text-xs text-gray-500 mb-2">
+            {threadId ? "Diagnostics in this conversation" : "Diagnostics"}
+          </div>
           <div className="space-y-2 max-h-64 overflow-y-auto">
             {isLoading ? (
               <div className="px-3 py-2 text-sm text-gray-400">Loading...</div>
@@ -0,0 +1,141 @@
+"use client";
+
+// React
+import { useState } from "react";
+
+// ShadCn
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+
+// Lib
+import {
+  LAB_FILE_ACCEPT,
+  LAB_FILE_HEADER_BYTES,
+  LAB_FILE_TYPE_LABELS,
+  MAX_LAB_FILE_BYTES,
+  validateLabFile,
+} from "@/lib/lab-files";
+
+// Type Definitions
+interface LabResultUploadProps {
+  testId: string;
+  currentFileName?: string | null; // Set when a file was already uploaded
+  hasFile: boolean;
+  onUploaded?: () => void;
+  onCancel?: () => void; // Omit to hide Cancel when embedded in another form
+}
+
+export default function LabResultUpload({
+  testId,
+  currentFileName,
+  hasFile,
+  onUploaded,
+  onCancel,
+}: LabResultUploadProps) {
+  // States
+  const [file, setFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadedName, setUploadedName] = useState<string | null>(null);
+
+  // Same checks as the server, so obvious mistakes fail before uploading
+  const handleFileChange = async (selected: File | null) => {
+    setFile(null);
+    setError(null);
+    if (!selected) return;
+
+    const header = new Uint8Array(
+      await selected.slice(0, LAB_FILE_HEADER_BYTES).arrayBuffer()
+    );
+    const validation = validateLabFile(selected, header);
+    if (!validation.ok) {
+      setError(validation.error);
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch(`/api/tests/${testId}/result-file`, {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to upload file");
+        return;
+      }
+
+      setUploadedName(file.name);
+      setFile(null);
+      onUploaded?.();
+      onCancel?.();
+    } catch (error) {
+      console.error("Error uploading lab result:", error);
+      alert("❌ Failed to upload lab result. Please try again.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {(hasFile || uploadedName) && (
+        <div className="flex justify-between items-center p-3 bg-green-50 border border-green-200 rounded-lg text-sm">
+          <span className="text-gray-800 truncate">
+            {uploadedName || currentFileName || "Uploaded lab result"}
+          </span>
+          <a
+            href={`/api/tests/${testId}/result-file`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-purple-600 hover:text-purple-800 font-medium shrink-0 ml-3"
+          >
+            View File
+          </a>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="lab-result-file">
+          {hasFile || uploadedName ? "Replace lab result" : "Upload lab result"}
+        </Label>
+        <Input
+          id="lab-result-file"
+          type="file"
+          accept={LAB_FILE_ACCEPT}
+          aria-invalid={!!error}
+          onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+        />
+        <p className="text-xs text-gray-500">
+          {LAB_FILE_TYPE_LABELS}, up to {MAX_LAB_FILE_BYTES / 1024 / 1024} MB
+        </p>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+
+      <div className="flex gap-2 pt-4">
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+        )}
+        <Button
+          onClick={handleUpload}
+          disabled={!file || isUploading}
+          className="flex-1 bg-gradient-to-r from-purple-400 to-pink-400 hover:from-purple-500 hover:to-pink-500"
+        >
+          {isUploading ? "Uploading..." : "Save Results"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+// React
+import { useState } from "react";
+
+// ShadCn
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+
+// Lib
+import {
+  describeReferenceRange,
+  flagLabValue,
+  LabResultSchema,
+} from "@/lib/lab-schemas";
+
+// Types
+import { LabResult, LabValueFlag } from "@/types/lab";
+import { FieldError } from "@/types/prediction";
+
+// Type Definitions
+interface LabValuesFormProps {
+  testId: string; // tests row id
+  schema: LabResultSchema;
+  stored?: LabResult | null; // Shown when the test is reopened
+  onSaved?: () => void;
+  onCancel: () => void;
+}
+
+const FLAG_STYLES: Record<LabValueFlag, string> = {
+  low: "bg-amber-100 text-amber-800",
+  normal: "bg-green-100 text-green-800",
+  high: "bg-red-100 text-red-800",
+};
+
+export default function LabValuesForm({
+  testId,
+  schema,
+  stored,
+  onSaved,
+  onCancel,
+}: LabValuesFormProps) {
+  // States
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      (stored?.values || []).map(({ analyte, value }) => [
+        analyte,
+        String(value),
+      ])
+    )
+  );
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/tests/${testId}/lab-values`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ values }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setFieldErrors(
+          Object.fromEntries(
+            ((data.fieldErrors as FieldError[]) || []).map(
+              ({ field, message }) => [field, message]
+            )
+          )
+        );
+        if (!data.fieldErrors) {
+          alert(`❌ ${data.error || "Failed to save lab values"}`);
+        }
+        return;
+      }
+
+      setFieldErrors({});
+      onSaved?.();
+      onCancel();
+    } catch (error) {
+      console.error("Error saving lab values:", error);
+      alert("❌ Failed to save lab values. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        {schema.analytes.map((analyte) => {
+          const number = Number(values[analyte.name]);
+          // Highlight out-of-range values as they are typed
+          const flag =
+            values[analyte.name] && Number.isFinite(number)
+              ? flagLabValue(analyte, number)
+              : null;
+
+          return (
+            <div key={analyte.name}>
+              <Label htmlFor={`lab-${analyte.name}`}>
+                {analyte.label} ({analyte.unit})
+                {analyte.optional && (
+                  <span className="text-gray-400 font-normal"> optional</span>
+                )}
+              </Label>
+              <Input
+                id={`lab-${analyte.name}`}
+                type="number"
+                step={analyte.step || 1}
+                aria-invalid={!!fieldErrors[analyte.name]}
+                value={values[analyte.name] || ""}
+                onChange={(e) =>
+                  setValues((prev) => ({
+                    ...prev,
+                    [analyte.name]: e.target.value,
+                  }))
+                }
+                className={
+                  flag === "high"
+                    ? "border-red-400"
+                    : flag === "low"
+                      ? "border-amber-400"
+                      : ""
+                }
+              />
+              <div className="mt-1 flex items-center gap-2 text-xs text-gray-500">
+                <span>Reference {describeReferenceRange(analyte)}</span>
+                {flag && flag !== "normal" && (
+                  <span
+                    className={`px-1.5 py-0.5 rounded font-medium ${FLAG_STYLES[flag]}`}
+                  >
+                    {flag === "high" ? "High" : "Low"}
+                  </span>
+                )}
+              </div>
+              {fieldErrors[analyte.name] && (
+                <p className="mt-1 text-xs text-red-600">
+                  {fieldErrors[analyte.name]}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {stored && (
+        <p className="text-xs text-gray-500">
+          Saved {new Date(stored.recordedAt).toLocaleString()}
+        </p>
+      )}
+
+      <div className="flex gap-2 pt-4">
+        <Button variant="outline" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex-1 bg-gradient-to-r from-purple-400 to-pink-400 hover:from-purple-500 hover:to-pink-500"
+        >
+          {isSaving ? "Saving..." : "Save Values"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -22,6 +22,9 @@ import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
 
+// Lib
+import { MEDICAL_TESTS, MedicalTest } from "@/lib/test-catalog";
+
 // Components
 import AvailabilityCalendar from "@/components/availability/AvailabilityCalendar";
 
@@ -32,20 +35,12 @@ import {
   AppointmentInput,
   DiagnosticPayload,
 } from "@/types/medical";
-
-interface MedicalTest {
-  id: string;
-  name: string;
-  description: string;
-  price: string;
-  duration: string;
-  category: string;
-}
+import { AvailabilitySlot, SlotConflict } from "@/types/availability";
 
 interface MedicalInfoDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (payload: DiagnosticPayload) => void;
+  onSubmit: (payload: DiagnosticPayload) => Promise<SlotConflict | null>;
   workerResponse: {
     type: string;
     testName?: string;
@@ -55,55 +50,6 @@ interface MedicalInfoDialogProps {
   userSymptom: string;
 }
 
-// Sample medical tests JSON object
-const MEDICAL_TESTS: MedicalTest[] = [
-  {
-    id: "fasting_glucose_blood_test",
-    name: "Fasting Glucose Blood Test",
-    description:
-      "Measures blood sugar levels after fasting to screen for diabetes or prediabetes.",
-    price: "$25",
-    duration: "Same day",
-    category: "blood",
-  },
-  {
-    id: "cardiovascular_risk_panel",
-    name: "Cardiovascular Risk Panel",
-    description:
-      "Evaluates cholesterol, blood pressure, and heart-related biomarkers to assess risk of heart disease.",
-    price: "$100",
-    duration: "1–2 days",
-    category: "cardiology",
-  },
-  {
-    id: "kidney_function_test",
-    name: "Kidney Function Test",
-    description:
-      "Analyzes blood urea nitrogen and creatinine levels to detect kidney dysfunction or disease.",
-    price: "$45",
-    duration: "1 day",
-    category: "blood",
-  },
-  {
-    id: "liver_enzyme_panel",
-    name: "Liver Enzyme Panel",
-    description:
-      "Checks enzyme levels (ALT, AST, ALP, bilirubin) to evaluate liver function or potential liver disease.",
-    price: "$55",
-    duration: "1 day",
-    category: "blood",
-  },
-  {
-    id: "parkinsons_screening",
-    name: "Parkinson’s Screening Test",
-    description:
-      "Analyzes neurological and voice metrics (jitter, shimmer, pitch) for early signs of Parkinson’s disease.",
-    price: "$120",
-    duration: "2–3 days",
-    category: "neurology",
-  },
-];
-
 // Function to get AI recommended test ID
 const getAIRecommendedTestIds = (testId?: string): string[] => {
   if (!testId) return [];
@@ -137,13 +83,46 @@ export default function MedicalInfoDialog({
     return getAIRecommendedTestIds(workerResponse?.testId);
   });
 
-  // Single date selection for appointment scheduling
-  // Stores the preferred appointment date as ISO string (YYYY-MM-DD)
-  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  // Open slot selected for the tests (see /api/availability/slots)
+  const [selectedSlot, setSelectedSlot] = useState<AvailabilitySlot | null>(
+    null
+  );
+
+  // Set when the chosen slot was taken before it could be booked
+  const [slotConflict, setSlotConflict] = useState<SlotConflict | null>(null);
+  const [slotRefreshKey, setSlotRefreshKey] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Track if we've loaded user data to avoid overwriting user edits
   const [userDataLoaded, setUserDataLoaded] = useState(false);
 
+  // Bookable tests from the live catalog
+  const [catalog, setCatalog] = useState<MedicalTest[]>(() =>
+    MEDICAL_TESTS.filter((test) => test.active)
+  );
+
+  // Load the test catalog when the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchCatalog = async () => {
+      try {
+        const response = await fetch("/api/test-catalog");
+        const data = await response.json();
+
+        if (response.ok && Array.isArray(data.tests)) {
+          setCatalog(data.tests);
+        } else {
+          console.error("❌ Failed to load test catalog:", data.error);
+        }
+      } catch (error) {
+        console.error("❌ Error loading test catalog:", error);
+      }
+    };
+
+    fetchCatalog();
+  }, [isOpen]);
+
   // Initialize recommended tests when dialog opens or worker response changes
   useEffect(() => {
     if (isOpen && workerResponse) {
@@ -244,15 +223,14 @@ export default function MedicalInfoDialog({
         : [...prev, testId]
     );
   };
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     // Create comprehensive diagnostic payload with all required information
+    if (!selectedSlot) return;
+
     const appointmentInput: AppointmentInput = {
-      preferredDate:
-        selectedDate ||
-        new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
-          .toISOString()
-          .split("T")[0],
-      timeSlot: "morning", // Default to morning slot
+      preferredDate: selectedSlot.date,
+      timeSlot: selectedSlot.start,
+      providerId: selectedSlot.providerId,
       notes: `Appointment for ${
         selectedTests.length
       } test(s): ${selectedTests.join(", ")}`,
@@ -276,7 +254,15 @@ export default function MedicalInfoDialog({
     console.log("Diagnostic payload:", diagnosticPayload);
 
     // Pass comprehensive payload to parent
-    onSubmit(diagnosticPayload);
+    setIsSubmitting(true);
+    const conflict = await onSubmit(diagnosticPayload);
+    setIsSubmitting(false);
+
+    // Slot taken meanwhile: reload the open times and offer the nearest ones
+    if (conflict) {
+      setSlotConflict(conflict);
+      setSlotRefreshKey((key) => key + 1);
+    }
   };
 
   const isFormValid =
@@ -284,7 +270,9 @@ export default function MedicalInfoDialog({
     medicalInfo.lastName &&
     medicalInfo.email &&
     medicalInfo.phone &&
-    selectedTests.length > 0;
+    selectedTests.length > 0 &&
+    selectedSlot &&
+    !isSubmitting;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -477,7 +465,7 @@ export default function MedicalInfoDialog({
               some recommended tests. You can modify the selection below:
             </p>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {MEDICAL_TESTS.map((test) => {
+              {catalog.map((test) => {
                 const isRecommended = isTestRecommended(
                   test.id,
                   workerResponse?.testId
@@ -550,30 +538,47 @@ export default function MedicalInfoDialog({
             </div>
           </div>
 
-          {/* Appointment Date Selection */}
+          {/* Appointment Slot Selection */}
           {/* 
-            Integrated calendar for single-date appointment scheduling.
+            Integrated calendar for slot-based appointment scheduling.
             Positioned after test selection but before action buttons to maintain logical flow.
             
             Key features:
-            - 14-day window for near-term scheduling
-            - Single-select mode for specific appointment booking
-            - ISO date output for consistent database integration
+            - Only days and times with an open slot can be picked
+            - Slot start as an ISO timestamp for consistent database integration
             - Visual feedback with emerald shading
           */}
           <div className="mt-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
-              Select Preferred Appointment Date
+              Select Appointment Time
             </h3>
             <p className="text-sm text-gray-600 mb-4">
-              Choose your preferred date for the medical tests. We&apos;ll
-              confirm availability and send you appointment details.
+              Choose an available time for the medical tests. We&apos;ll send
+              you appointment details.
             </p>
             <AvailabilityCalendar
-              initial={null} // Start with no pre-selected date
-              onChange={setSelectedDate} // Update local state with selected date
+              onChange={setSelectedSlot} // Update local state with selected slot
+              refreshKey={slotRefreshKey} // Reload after a booking conflict
               className="rounded-2xl" // Match modal's rounded design
             />
+
+            {/* Booking conflict with the nearest open times */}
+            {slotConflict && (
+              <div className="mt-4 rounded-xl border border-red-200 bg-red-50 p-3">
+                <p className="text-sm font-medium text-red-800">
+                  ❌ {slotConflict.error} Please pick another time.
+                </p>
+                {slotConflict.alternatives &&
+                  slotConflict.alternatives.length > 0 && (
+                    <p className="mt-1 text-xs text-red-700">
+                      Nearest open times:{" "}
+                      {slotConflict.alternatives
+                        .map((option) => `${option.date} at ${option.label}`)
+                        .join(", ")}
+                    </p>
+                  )}
+              </div>
+            )}
           </div>
 
           {/* Action Buttons */}
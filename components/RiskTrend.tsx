@@ -0,0 +1,161 @@
+"use client";
+
+// React
+import { useState, useEffect } from "react";
+
+// Types
+import { RiskTrend as RiskTrendData } from "@/types/prediction";
+
+// Type Definitions
+interface RiskTrendProps {
+  userId: string;
+  model: string; // Registry model id, e.g. 'diabetes'
+  title: string;
+  currentDiagnosticId?: string; // Highlighted in the table
+  refreshKey?: string; // Changes when a new prediction is saved
+}
+
+const formatPercent = (probability: number) =>
+  `${(probability * 100).toFixed(1)}%`;
+
+// Signed change in percentage points, e.g. "▲ 8.2 pts"
+function ChangeIndicator({ change }: { change: number | null }) {
+  if (change === null) return <span className="text-gray-400">—</span>;
+
+  const points = Math.abs(change * 100).toFixed(1);
+  if (change > 0) return <span className="text-red-700">▲ {points} pts</span>;
+  if (change < 0) return <span className="text-green-700">▼ {points} pts</span>;
+  return <span className="text-gray-500">No change</span>;
+}
+
+export default function RiskTrend({
+  userId,
+  model,
+  title,
+  currentDiagnosticId,
+  refreshKey,
+}: RiskTrendProps) {
+  // States
+  const [trend, setTrend] = useState<RiskTrendData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Effects
+  useEffect(() => {
+    const fetchTrend = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(
+          `/api/predict/${model}/history?userId=${encodeURIComponent(userId)}`
+        );
+        if (!response.ok) {
+          throw new Error(`History request failed: ${response.status}`);
+        }
+        setTrend(await response.json());
+      } catch (error) {
+        console.error("Error fetching risk trend:", error);
+        setTrend(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTrend();
+  }, [userId, model, refreshKey]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading risk trend...</p>;
+  }
+
+  // A trend needs at least two screenings
+  if (!trend || trend.points.length < 2) return null;
+
+  const latest = trend.points[trend.points.length - 1];
+  const previous = trend.points[trend.points.length - 2];
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-medium text-gray-900">{title}</h3>
+
+      {trend.direction === "rising" && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          ⚠️ Your risk rose from {formatPercent(previous.probability)} to{" "}
+          {formatPercent(latest.probability)} since your screening on{" "}
+          {new Date(previous.predictedAt).toLocaleDateString()}. Consider
+          discussing this with a doctor.
+        </div>
+      )}
+      {trend.direction === "falling" && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          Your risk fell from {formatPercent(previous.probability)} to{" "}
+          {formatPercent(latest.probability)} since your last screening.
+        </div>
+      )}
+
+      {/* Probability per screening, oldest first */}
+      <div className="flex items-end gap-2 h-24">
+        {trend.points.map((point) => (
+          <div
+            key={point.testId}
+            title={`${new Date(point.predictedAt).toLocaleDateString()}: ${formatPercent(point.probability)}`}
+            className={`flex-1 rounded-t ${
+              point.probability > 0.5 ? "bg-red-400" : "bg-purple-400"
+            } ${point.diagnosticId === currentDiagnosticId ? "ring-2 ring-purple-700" : ""}`}
+            style={{ height: `${Math.max(point.probability * 100, 2)}%` }}
+          />
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              <th className="py-2 pr-3 font-medium">Date</th>
+              <th className="py-2 pr-3 font-medium">Risk</th>
+              <th className="py-2 pr-3 font-medium">Change</th>
+              {trend.features.map((feature) => (
+                <th key={feature.name} className="py-2 pr-3 font-medium">
+                  {feature.label}
+                  {feature.unit && (
+                    <span className="text-gray-400 font-normal">
+                      {" "}
+                      ({feature.unit})
+                    </span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {trend.points.map((point) => (
+              <tr
+                key={point.testId}
+                className={`border-b border-gray-100 ${
+                  point.diagnosticId === currentDiagnosticId
+                    ? "bg-purple-50"
+                    : ""
+                }`}
+              >
+                <td className="py-2 pr-3 text-gray-900">
+                  {new Date(point.predictedAt).toLocaleDateString()}
+                </td>
+                <td className="py-2 pr-3 font-medium text-gray-900">
+                  {formatPercent(point.probability)}
+                </td>
+                <td className="py-2 pr-3">
+                  <ChangeIndicator change={point.change} />
+                </td>
+                {trend.features.map((feature) => (
+                  <td key={feature.name} className="py-2 pr-3 text-gray-700">
+                    {point.inputs[feature.name] === null
+                      ? "—"
+                      : String(point.inputs[feature.name])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+// React
+import { useState } from "react";
+
+// ShadCn
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+
+// Lib
+import {
+  COMMON_ASSOCIATED_SYMPTOMS,
+  SYMPTOM_ONSETS,
+} from "@/lib/symptom-intake";
+
+// Types
+import { StructuredSymptom } from "@/types/medical";
+
+// Type Definitions
+interface SymptomIntakeProps {
+  onComplete: (symptom: StructuredSymptom) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+const STEPS = [
+  "What is your main symptom?",
+  "How did it start?",
+  "How long have you had it?",
+  "How severe is it?",
+  "Where do you feel it?",
+  "Have you noticed anything else?",
+];
+
+const EMPTY_SYMPTOM: StructuredSymptom = {
+  complaint: "",
+  onset: "gradual",
+  duration: "",
+  severity: 5,
+  location: "",
+  associatedSymptoms: [],
+};
+
+export default function SymptomIntake({
+  onComplete,
+  onCancel,
+  disabled,
+}: SymptomIntakeProps) {
+  // States
+  const [step, setStep] = useState(0);
+  const [symptom, setSymptom] = useState<StructuredSymptom>(EMPTY_SYMPTOM);
+  const [otherSymptom, setOtherSymptom] = useState("");
+
+  const updateField = <K extends keyof StructuredSymptom>(
+    field: K,
+    value: StructuredSymptom[K]
+  ) => {
+    setSymptom((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const toggleAssociatedSymptom = (name: string, checked: boolean) => {
+    updateField(
+      "associatedSymptoms",
+      checked
+        ? [...symptom.associatedSymptoms, name]
+        : symptom.associatedSymptoms.filter((item) => item !== name)
+    );
+  };
+
+  // Required answers must be filled in before moving on
+  const canContinue =
+    (step !== 0 || symptom.complaint.trim() !== "") &&
+    (step !== 2 || symptom.duration.trim() !== "");
+
+  const isLastStep = step === STEPS.length - 1;
+
+  const handleNext = () => {
+    if (!canContinue || disabled) return;
+
+    if (!isLastStep) {
+      setStep(step + 1);
+      return;
+    }
+
+    const extra = otherSymptom.trim();
+    onComplete({
+      ...symptom,
+      complaint: symptom.complaint.trim(),
+      duration: symptom.duration.trim(),
+      location: symptom.location.trim(),
+      associatedSymptoms: extra
+        ? [...symptom.associatedSymptoms, extra]
+        : symptom.associatedSymptoms,
+    });
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      handleNext();
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 px-4 py-4 rounded-xl space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-gray-800">{STEPS[step]}</p>
+        <span className="text-xs text-gray-400">
+          Step {step + 1} of {STEPS.length}
+        </span>
+      </div>
+
+      {step === 0 && (
+        <Input
+          autoFocus
+          value={symptom.complaint}
+          onChange={(e) => updateField("complaint", e.target.value)}
+          onKeyPress={handleKeyPress}
+          placeholder="e.g., Headache, stomach pain, cough"
+        />
+      )}
+
+      {step === 1 && (
+        <div className="flex gap-2">
+          {SYMPTOM_ONSETS.map((onset) => (
+            <Button
+              key={onset}
+              type="button"
+              size="sm"
+              variant={symptom.onset === onset ? "default" : "outline"}
+              onClick={() => updateField("onset", onset)}
+            >
+              {onset === "sudden" ? "Suddenly" : "Gradually"}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {step === 2 && (
+        <Input
+          autoFocus
+          value={symptom.duration}
+          onChange={(e) => updateField("duration", e.target.value)}
+          onKeyPress={handleKeyPress}
+          placeholder="e.g., 3 days, 2 weeks, since this morning"
+        />
+      )}
+
+      {step === 3 && (
+        <div className="space-y-2">
+          <input
+            type="range"
+            min={1}
+            max={10}
+            value={symptom.severity}
+            onChange={(e) => updateField("severity", Number(e.target.value))}
+            className="w-full"
+          />
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>1 - Mild</span>
+            <span className="font-medium text-gray-800">
+              {symptom.severity}/10
+            </span>
+            <span>10 - Worst imaginable</span>
+          </div>
+        </div>
+      )}
+
+      {step === 4 && (
+        <Input
+          autoFocus
+          value={symptom.location}
+          onChange={(e) => updateField("location", e.target.value)}
+          onKeyPress={handleKeyPress}
+          placeholder="e.g., Lower back, left knee (optional)"
+        />
+      )}
+
+      {step === 5 && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {COMMON_ASSOCIATED_SYMPTOMS.map((name) => (
+              <div key={name} className="flex items-center gap-2">
+                <Checkbox
+                  id={`associated-${name}`}
+                  checked={symptom.associatedSymptoms.includes(name)}
+                  onCheckedChange={(checked) =>
+                    toggleAssociatedSymptom(name, checked === true)
+                  }
+                />
+                <Label htmlFor={`associated-${name}`} className="text-sm">
+                  {name}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <Input
+            value={otherSymptom}
+            onChange={(e) => setOtherSymptom(e.target.value)}
+            onKeyPress={handleKeyPress}
+            placeholder="Anything else? (optional)"
+          />
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={step === 0 ? onCancel : () => setStep(step - 1)}
+        >
+          {step === 0 ? "Cancel" : "Back"}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleNext}
+          disabled={!canContinue || disabled}
+        >
+          {isLastStep ? "Send" : "Next"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,463 @@
+"use client";
+
+// React
+import { useState } from "react";
+
+// ShadCn
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+
+// Lib
+import { ML_MODELS } from "@/lib/ml-models";
+import { MedicalTest } from "@/lib/test-catalog";
+
+// Types
+import { FieldError } from "@/types/prediction";
+
+// Type Definitions
+interface TestCatalogManagerProps {
+  initialTests: MedicalTest[];
+}
+
+// Form fields as typed; converted to the API payload on save
+interface TestForm {
+  id: string;
+  name: string;
+  description: string;
+  price: string; // Dollars
+  duration: string;
+  category: string;
+  mlModel: string; // "" when results are not scored by a model
+  resultSchema: string; // JSON array of analytes, "" for none
+  active: boolean;
+}
+
+const EMPTY_FORM: TestForm = {
+  id: "",
+  name: "",
+  description: "",
+  price: "",
+  duration: "",
+  category: "",
+  mlModel: "",
+  resultSchema: "",
+  active: true,
+};
+
+const FIELD_CLASS =
+  "w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs";
+
+function toForm(test: MedicalTest): TestForm {
+  return {
+    id: test.id,
+    name: test.name,
+    description: test.description,
+    price: String(test.priceCents / 100),
+    duration: test.duration,
+    category: test.category,
+    mlModel: test.mlModel || "",
+    resultSchema: test.resultSchema
+      ? JSON.stringify(test.resultSchema, null, 2)
+      : "",
+    active: test.active,
+  };
+}
+
+// How results are entered for a test
+function describeResultType(test: MedicalTest) {
+  if (test.mlModel) {
+    const model = ML_MODELS.find((m) => m.id === test.mlModel);
+    return `ML: ${model?.name || test.mlModel}`;
+  }
+  if (test.resultSchema?.length) {
+    return `${test.resultSchema.length} lab values`;
+  }
+  return "File upload";
+}
+
+export default function TestCatalogManager({
+  initialTests,
+}: TestCatalogManagerProps) {
+  // States
+  const [tests, setTests] = useState<MedicalTest[]>(initialTests);
+  const [editing, setEditing] = useState<{
+    testId: string | null; // null when adding a test
+    form: TestForm;
+  } | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openEditor = (test: MedicalTest | null) => {
+    setFieldErrors({});
+    setEditing({
+      testId: test?.id || null,
+      form: test ? toForm(test) : EMPTY_FORM,
+    });
+  };
+
+  const updateForm = <K extends keyof TestForm>(
+    field: K,
+    value: TestForm[K]
+  ) => {
+    setEditing((prev) =>
+      prev ? { ...prev, form: { ...prev.form, [field]: value } } : prev
+    );
+  };
+
+  // Replace (or add) a test in the table with the server's copy
+  const storeTest = (saved: MedicalTest) => {
+    setTests((prev) =>
+      prev.some((test) => test.id === saved.id)
+        ? prev.map((test) => (test.id === saved.id ? saved : test))
+        : [...prev, saved]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const { testId, form } = editing;
+
+    let resultSchema: unknown = null;
+    if (form.resultSchema.trim()) {
+      try {
+        resultSchema = JSON.parse(form.resultSchema);
+      } catch {
+        setFieldErrors({ resultSchema: "Result schema must be valid JSON" });
+        return;
+      }
+    }
+
+    const payload = {
+      ...(testId ? {} : { id: form.id }),
+      name: form.name,
+      description: form.description,
+      priceCents: Math.round(Number(form.price) * 100),
+      duration: form.duration,
+      category: form.category,
+      mlModel: form.mlModel || null,
+      resultSchema,
+      active: form.active,
+    };
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        testId ? `/api/test-catalog/${testId}` : "/api/test-catalog",
+        {
+          method: testId ? "PATCH" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(payload),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setFieldErrors(
+          Object.fromEntries(
+            ((data.fieldErrors as FieldError[]) || []).map(
+              ({ field, message }) => [field, message]
+            )
+          )
+        );
+        if (!data.fieldErrors) {
+          alert(`❌ ${data.error || "Failed to save test"}`);
+        }
+        return;
+      }
+
+      storeTest(data.test);
+      setEditing(null);
+    } catch (error) {
+      console.error("Error saving catalog test:", error);
+      alert("❌ Failed to save test. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Retire a test, or bring a retired test back
+  const handleToggleActive = async (test: MedicalTest) => {
+    if (
+      test.active &&
+      !confirm(
+        `Deactivate ${test.name}? Patients will no longer be able to book it.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/test-catalog/${test.id}`, {
+        method: test.active ? "DELETE" : "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: test.active ? undefined : JSON.stringify({ active: true }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(`❌ ${data.error || "Failed to update test"}`);
+        return;
+      }
+
+      storeTest(data.test);
+    } catch (error) {
+      console.error("Error updating catalog test:", error);
+      alert("❌ Failed to update test. Please try again.");
+    }
+  };
+
+  const fieldError = (field: string) =>
+    fieldErrors[field] && (
+      <p className="mt-1 text-xs text-red-600">{fieldErrors[field]}</p>
+    );
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">
+          Tests ({tests.length})
+        </h2>
+        <Button
+          onClick={() => openEditor(null)}
+          className="bg-gradient-to-r from-purple-400 to-pink-400 hover:from-purple-500 hover:to-pink-500"
+        >
+          Add Test
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              <th className="py-2 pr-3 font-medium">Test</th>
+              <th className="py-2 pr-3 font-medium">Category</th>
+              <th className="py-2 pr-3 font-medium">Price</th>
+              <th className="py-2 pr-3 font-medium">Turnaround</th>
+              <th className="py-2 pr-3 font-medium">Results</th>
+              <th className="py-2 pr-3 font-medium">Status</th>
+              <th className="py-2 font-medium" />
+            </tr>
+          </thead>
+          <tbody>
+            {tests.map((test) => (
+              <tr key={test.id} className="border-b border-gray-100">
+                <td className="py-2 pr-3">
+                  <div className="font-medium text-gray-900">{test.name}</div>
+                  <div className="text-xs text-gray-500">{test.id}</div>
+                </td>
+                <td className="py-2 pr-3 text-gray-700">{test.category}</td>
+                <td className="py-2 pr-3 text-gray-700">{test.price}</td>
+                <td className="py-2 pr-3 text-gray-700">{test.duration}</td>
+                <td className="py-2 pr-3 text-gray-700">
+                  {describeResultType(test)}
+                </td>
+                <td className="py-2 pr-3">
+                  <span
+                    className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                      test.active
+                        ? "bg-green-100 text-green-800"
+                        : "bg-gray-100 text-gray-600"
+                    }`}
+                  >
+                    {test.active ? "Active" : "Inactive"}
+                  </span>
+                </td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openEditor(test)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleToggleActive(test)}
+                    className="ml-2"
+                  >
+                    {test.active ? "Deactivate" : "Activate"}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Add / Edit Dialog */}
+      {editing && (
+        <Dialog
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+        >
+          <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editing.testId ? `Edit ${editing.form.name}` : "Add Test"}
+              </DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="catalog-id">Test ID</Label>
+                  <Input
+                    id="catalog-id"
+                    value={editing.form.id}
+                    disabled={!!editing.testId}
+                    aria-invalid={!!fieldErrors.id}
+                    onChange={(e) => updateForm("id", e.target.value)}
+                    placeholder="thyroid_panel"
+                  />
+                  {fieldError("id")}
+                </div>
+                <div>
+                  <Label htmlFor="catalog-name">Name</Label>
+                  <Input
+                    id="catalog-name"
+                    value={editing.form.name}
+                    aria-invalid={!!fieldErrors.name}
+                    onChange={(e) => updateForm("name", e.target.value)}
+                  />
+                  {fieldError("name")}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="catalog-description">Description</Label>
+                <textarea
+                  id="catalog-description"
+                  rows={2}
+                  className={FIELD_CLASS}
+                  value={editing.form.description}
+                  aria-invalid={!!fieldErrors.description}
+                  onChange={(e) => updateForm("description", e.target.value)}
+                />
+                {fieldError("description")}
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="catalog-price">Price ($)</Label>
+                  <Input
+                    id="catalog-price"
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={editing.form.price}
+                    aria-invalid={!!fieldErrors.priceCents}
+                    onChange={(e) => updateForm("price", e.target.value)}
+                  />
+                  {fieldError("priceCents")}
+                </div>
+                <div>
+                  <Label htmlFor="catalog-duration">Turnaround</Label>
+                  <Input
+                    id="catalog-duration"
+                    value={editing.form.duration}
+                    aria-invalid={!!fieldErrors.duration}
+                    onChange={(e) => updateForm("duration", e.target.value)}
+                    placeholder="1–2 days"
+                  />
+                  {fieldError("duration")}
+                </div>
+                <div>
+                  <Label htmlFor="catalog-category">Category</Label>
+                  <Input
+                    id="catalog-category"
+                    value={editing.form.category}
+                    aria-invalid={!!fieldErrors.category}
+                    onChange={(e) => updateForm("category", e.target.value)}
+                    placeholder="blood"
+                  />
+                  {fieldError("category")}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="catalog-ml-model">ML model</Label>
+                <select
+                  id="catalog-ml-model"
+                  className={FIELD_CLASS}
+                  value={editing.form.mlModel}
+                  onChange={(e) => updateForm("mlModel", e.target.value)}
+                >
+                  <option value="">None</option>
+                  {ML_MODELS.map((model) => (
+                    <option key={model.id} value={model.id}>
+                      {model.name}
+                    </option>
+                  ))}
+                </select>
+                {fieldError("mlModel")}
+              </div>
+
+              <div>
+                <Label htmlFor="catalog-result-schema">
+                  Result schema (JSON)
+                </Label>
+                <textarea
+                  id="catalog-result-schema"
+                  rows={8}
+                  className={`${FIELD_CLASS} font-mono text-xs`}
+                  value={editing.form.resultSchema}
+                  aria-invalid={!!fieldErrors.resultSchema}
+                  onChange={(e) => updateForm("resultSchema", e.target.value)}
+                  placeholder='[{ "name": "tsh", "label": "TSH", "unit": "mIU/L", "referenceLow": 0.4, "referenceHigh": 4, "min": 0, "max": 100 }]'
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Lab values entered for the test. Leave empty for ML-scored
+                  tests and tests with a file upload only.
+                </p>
+                {fieldError("resultSchema")}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="catalog-active"
+                  checked={editing.form.active}
+                  onCheckedChange={(checked) =>
+                    updateForm("active", checked === true)
+                  }
+                />
+                <Label htmlFor="catalog-active">
+                  Active (patients can book this test)
+                </Label>
+              </div>
+
+              <div className="flex gap-2 pt-4">
+                <Button
+                  variant="outline"
+                  onClick={() => setEditing(null)}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="flex-1 bg-gradient-to-r from-purple-400 to-pink-400 hover:from-purple-500 hover:to-pink-500"
+                >
+                  {isSaving ? "Saving..." : "Save Test"}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
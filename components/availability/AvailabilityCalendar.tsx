@@ -1,104 +1,178 @@
 // components/availability/AvailabilityCalendar.tsx
-// Calendar that lets users pick a single availability date for appointment scheduling.
+// Calendar that lets users pick an open appointment slot.
 // - Uses shadcn Calendar wrapper (react-day-picker under the hood)
-// - Limits selection to today..today+13 (next 2 weeks)
-// - Emits single ISO date string (YYYY-MM-DD) via onChange for easy DB use
-// - Provides visual feedback with emerald shading for selected date
-// - Single-select mode for appointment scheduling workflow
+// - Loads open slots from /api/availability/slots (next 2 weeks by default)
+// - Only days with an open slot can be selected; their times are listed below
+// - Emits the selected slot (with its ISO start time) via onChange
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import { addDays, format } from "date-fns";
+import { format } from "date-fns";
 import { Calendar } from "@/components/ui/calendar";
+import { AvailabilityDay, AvailabilitySlot } from "@/types/availability";
 
 type Props = {
-  initial?: string | null; // optional prefilled ISO date (YYYY-MM-DD)
-  onChange?: (isoDate: string | null) => void; // single date or null
+  onChange?: (slot: AvailabilitySlot | null) => void; // selected slot or null
+  providerId?: string; // optional: only this provider's slots
+  refreshKey?: number; // change to reload slots (e.g. after a booking conflict)
   className?: string;
 };
 
 /**
- * Convert Date object to ISO date string (YYYY-MM-DD)
- * Only includes date part for scheduling day-level availability
- * Ensures consistent format for database storage
+ * Parse a YYYY-MM-DD date as local midnight for react-day-picker
  */
-function toISO(d: Date) {
-  return d.toISOString().slice(0, 10);
+function fromISODate(date: string) {
+  return new Date(`${date}T00:00:00`);
 }
 
 /**
- * Single-date availability calendar component
+ * Slot-based availability calendar component
  *
  * Features:
- * - Single-select mode for choosing one appointment date
- * - 14-day window (today through today+13) to focus on near-term scheduling
- * - ISO date string output for consistent database integration
- * - Clear button to reset selection
- * - Visual preview of selected date
+ * - Days without an open slot are disabled
+ * - Time buttons for the selected day, each one bookable slot
+ * - Clear button to reset the selection
+ * - Visual preview of the selected slot
  * - Responsive design that works on mobile and desktop
  */
 export default function AvailabilityCalendar({
-  initial = null,
   onChange,
+  providerId,
+  refreshKey,
   className,
 }: Props) {
-  // Convert incoming ISO string to Date object for react-day-picker
-  // Handle null/undefined initial values gracefully
-  const initialDate = useMemo(
-    () => (initial ? new Date(`${initial}T00:00:00`) : undefined),
-    [initial]
+  const [days, setDays] = useState<AvailabilityDay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Selected day (local date) and slot within it
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>();
+  const [selectedSlot, setSelectedSlot] = useState<AvailabilitySlot | null>(
+    null
   );
 
-  // Track currently selected date in component state (single Date or undefined)
-  const [selected, setSelected] = useState<Date | undefined>(initialDate);
+  // Load open slots; a reload clears the selection since it may be taken
+  useEffect(() => {
+    const fetchSlots = async () => {
+      setLoading(true);
+      setError(null);
+      setSelectedSlot(null);
+      try {
+        const params = new URLSearchParams(providerId ? { providerId } : {});
+        const response = await fetch(`/api/availability/slots?${params}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load availability");
+        }
+        setDays(data.days);
+      } catch (error) {
+        console.error("Error loading availability:", error);
+        setError("Could not load available times. Please try again.");
+        setDays([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSlots();
+  }, [providerId, refreshKey]);
+
+  // Emit the selected slot to the parent component whenever it changes
+  useEffect(() => {
+    onChange?.(selectedSlot);
+  }, [selectedSlot, onChange]);
 
-  // Calculate the date range for availability (next 14 days)
-  // Using useMemo to avoid recalculating on every render
-  const today = useMemo(() => new Date(), []);
-  const end = useMemo(() => addDays(today, 13), [today]);
+  const openDays = useMemo(
+    () => days.filter((day) => day.slots.length > 0),
+    [days]
+  );
 
-  // Disable dates outside our 14-day window
-  // This prevents users from selecting dates too far in the future
-  const disabled = [{ before: today, after: end }];
+  // Disable every day without an open slot
+  const disabled = (date: Date) =>
+    !openDays.some((day) => day.date === format(date, "yyyy-MM-dd"));
 
-  // Emit ISO date string to parent component whenever selection changes
-  // This keeps the parent in sync with user selection
-  useEffect(() => {
-    onChange?.(selected ? toISO(selected) : null);
-  }, [selected, onChange]);
+  const slotsForDay = selectedDate
+    ? openDays.find((day) => day.date === format(selectedDate, "yyyy-MM-dd"))
+        ?.slots || []
+    : [];
 
   /**
    * Handle clear action - reset selection
-   * Useful when user wants to choose a different date
+   * Useful when user wants to choose a different time
    */
   const handleClear = () => {
-    setSelected(undefined);
+    setSelectedDate(undefined);
+    setSelectedSlot(null);
   };
 
   return (
     <div className={className}>
       {/* Section header with clear instructions */}
       <div className="mb-3 text-sm font-medium text-slate-900">
-        Select your preferred appointment date
+        Select your appointment date and time
       </div>
 
       {/* Calendar container with shadcn-style border and padding */}
       <div className="rounded-2xl border border-slate-200 bg-white p-3 shadow-sm">
-        <Calendar
-          mode="single" // Enable single-date selection
-          selected={selected} // Currently selected date
-          onSelect={(date) => setSelected(date)} // Handle selection changes
-          disabled={disabled} // Enforce 14-day window
-          showOutsideDays={false} // Hide dates from other months for cleaner look
-        />
+        {loading ? (
+          <p className="p-4 text-sm text-slate-600">
+            Loading available times...
+          </p>
+        ) : (
+          <Calendar
+            mode="single" // Enable single-date selection
+            selected={selectedDate} // Currently selected date
+            onSelect={(date) => {
+              setSelectedDate(date);
+              setSelectedSlot(null);
+            }}
+            disabled={disabled} // Only days with open slots
+            defaultMonth={
+              openDays[0] ? fromISODate(openDays[0].date) : undefined
+            }
+            showOutsideDays={false} // Hide dates from other months for cleaner look
+          />
+        )}
       </div>
 
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+      {!loading && !error && openDays.length === 0 && (
+        <p className="mt-2 text-xs text-slate-600">
+          No appointments are available in the next two weeks.
+        </p>
+      )}
+
+      {/* Open times for the selected day */}
+      {selectedDate && slotsForDay.length > 0 && (
+        <div className="mt-3 grid grid-cols-3 gap-2 sm:grid-cols-4">
+          {slotsForDay.map((slot) => (
+            <button
+              key={`${slot.providerId}-${slot.start}`}
+              type="button"
+              onClick={() => setSelectedSlot(slot)}
+              className={`rounded-xl border px-2 py-1.5 text-xs font-medium shadow-sm transition-colors ${
+                selectedSlot?.start === slot.start &&
+                selectedSlot.providerId === slot.providerId
+                  ? "border-emerald-400 bg-emerald-50 text-emerald-800"
+                  : "border-slate-200 bg-white hover:bg-slate-50"
+              }`}
+            >
+              {slot.label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Footer with date range info and clear button */}
       <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
         {/* Show the available date range to user */}
-        <div className="text-xs text-slate-600">
-          Available: {format(today, "MMM d")} – {format(end, "MMM d")}
-        </div>
+        {openDays.length > 0 && (
+          <div className="text-xs text-slate-600">
+            Available: {format(fromISODate(openDays[0].date), "MMM d")} –{" "}
+            {format(fromISODate(openDays[openDays.length - 1].date), "MMM d")}
+          </div>
+        )}
 
         {/* Action buttons area */}
         <div className="flex items-center gap-2">
@@ -106,30 +180,29 @@ export default function AvailabilityCalendar({
             type="button"
             onClick={handleClear}
             className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium shadow-sm hover:bg-slate-50 transition-colors"
-            disabled={!selected}
+            disabled={!selectedDate}
           >
             Clear
           </button>
         </div>
       </div>
 
-      {/* Preview section showing selected date in a nice format */}
-      {selected && (
+      {/* Preview section showing the selected slot in a nice format */}
+      {selectedSlot && (
         <div className="mt-4 rounded-xl border border-emerald-200 bg-emerald-50 p-3">
           <div className="text-xs font-medium text-emerald-800 mb-2">
-            Selected appointment date:
+            Selected appointment:
           </div>
 
-          {/* Display selected date in user-friendly format */}
           <div className="flex items-center gap-2">
             <span className="rounded-full border border-emerald-300 bg-white px-3 py-1 text-sm font-medium text-emerald-800 shadow-sm">
-              {format(selected, "EEEE, MMM d, yyyy")}
+              {format(fromISODate(selectedSlot.date), "EEEE, MMM d, yyyy")} at{" "}
+              {selectedSlot.label}
             </span>
           </div>
 
-          {/* Technical preview for developers (can be removed in production) */}
           <div className="mt-2 text-xs text-emerald-700 opacity-75">
-            ISO format: {toISO(selected)}
+            {selectedSlot.providerName}, {selectedSlot.location}
           </div>
         </div>
       )}
@@ -0,0 +1,98 @@
+"use client";
+
+// React
+import { useState } from "react";
+
+// ShadCn
+import { Button } from "@/components/ui/button";
+
+// Components
+import AvailabilityCalendar from "@/components/availability/AvailabilityCalendar";
+
+// Types
+import { AvailabilitySlot } from "@/types/availability";
+
+// Type Definitions
+interface BookAppointmentProps {
+  userId?: string;
+  diagnosticId: string;
+  buttonLabel: string;
+  onBooked?: () => void;
+}
+
+// Slot picker plus booking button for follow-up appointments
+export default function BookAppointment({
+  userId,
+  diagnosticId,
+  buttonLabel,
+  onBooked,
+}: BookAppointmentProps) {
+  // States
+  const [slot, setSlot] = useState<AvailabilitySlot | null>(null);
+  const [isBooking, setIsBooking] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const handleBook = async () => {
+    if (!slot) return;
+
+    setIsBooking(true);
+    try {
+      const response = await fetch("/api/appointments", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          userId,
+          diagnosticId,
+          slotStart: slot.start,
+          providerId: slot.providerId,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        alert(
+          `✅ Appointment scheduled for ${slot.date} at ${slot.label}! Check the appointments section below or visit /appointments to manage it.`
+        );
+        onBooked?.();
+        return;
+      }
+
+      // Slot taken or clashing with another appointment: reload the open
+      // times and suggest the nearest ones
+      if (response.status === 409) {
+        const alternatives: AvailabilitySlot[] = data.alternatives || [];
+        alert(
+          alternatives.length > 0
+            ? `❌ ${data.error} Nearest open times:\n${alternatives
+                .map((option) => `• ${option.date} at ${option.label}`)
+                .join("\n")}`
+            : `❌ ${data.error} Please pick another time.`
+        );
+        setRefreshKey((key) => key + 1);
+        return;
+      }
+
+      alert("❌ Failed to submit appointment request. Please try again.");
+    } catch (error) {
+      console.error("Error booking appointment:", error);
+      alert("❌ Error submitting appointment request. Please try again.");
+    } finally {
+      setIsBooking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <AvailabilityCalendar onChange={setSlot} refreshKey={refreshKey} />
+      <Button
+        onClick={handleBook}
+        disabled={!slot || isBooking}
+        className="w-full bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white"
+      >
+        {isBooking ? "Booking..." : buttonLabel}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+// React
+import { useState } from "react";
+
+// ShadCn
+import { Button } from "@/components/ui/button";
+
+// Components
+import AvailabilityCalendar from "@/components/availability/AvailabilityCalendar";
+
+// Types
+import { AvailabilitySlot } from "@/types/availability";
+
+// Type Definitions
+interface RescheduleAppointmentProps {
+  appointmentId: string;
+  onRescheduled: (appointment: {
+    appointment_date: string;
+    appointment_time: string;
+    reschedule_count: number;
+  }) => void;
+  onClose: () => void;
+}
+
+// Slot picker that moves an existing appointment to a new time
+export default function RescheduleAppointment({
+  appointmentId,
+  onRescheduled,
+  onClose,
+}: RescheduleAppointmentProps) {
+  // States
+  const [slot, setSlot] = useState<AvailabilitySlot | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const handleReschedule = async () => {
+    if (!slot) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        `/api/appointments/${appointmentId}/reschedule`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            slotStart: slot.start,
+            providerId: slot.providerId,
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        alert(
+          `✅ Appointment moved to ${slot.date} at ${slot.label}. An updated confirmation has been emailed to you.`
+        );
+        onRescheduled(data.appointment);
+        return;
+      }
+
+      // Slot conflicts come with the nearest open times
+      if (response.status === 409 && data.alternatives) {
+        const alternatives: AvailabilitySlot[] = data.alternatives;
+        alert(
+          alternatives.length > 0
+            ? `❌ ${data.error} Nearest open times:\n${alternatives
+                .map((option) => `• ${option.date} at ${option.label}`)
+                .join("\n")}`
+            : `❌ ${data.error} Please pick another time.`
+        );
+        setRefreshKey((key) => key + 1);
+        return;
+      }
+
+      // Policy rules (too close to the appointment, too many changes)
+      alert(`❌ ${data.error || "Failed to reschedule appointment."}`);
+    } catch (error) {
+      console.error("Error rescheduling appointment:", error);
+      alert("❌ Error rescheduling appointment. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <AvailabilityCalendar onChange={setSlot} refreshKey={refreshKey} />
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          onClick={onClose}
+          disabled={isSaving}
+          className="flex-1"
+        >
+          Keep Current Time
+        </Button>
+        <Button
+          onClick={handleReschedule}
+          disabled={!slot || isSaving}
+          className="flex-1 bg-purple-600 hover:bg-purple-700"
+        >
+          {isSaving ? "Rescheduling..." : "Move Appointment"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { auth } from "@clerk/nextjs/server";
+import { APIError } from "@/lib/api-utils";
+
+/**
+ * Admin access for operations tooling (e.g. the test catalog).
+ * Admins are the Clerk user ids listed in ADMIN_USER_IDS (comma-separated).
+ * Clinicians, who act on patient alerts, are listed in CLINICIAN_USER_IDS;
+ * admins count as clinicians too.
+ */
+
+function listUserIds(value: string | undefined) {
+  return (value || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+export function isAdmin(userId: string | null | undefined) {
+  if (!userId) return false;
+
+  return listUserIds(process.env.ADMIN_USER_IDS).includes(userId);
+}
+
+export function isClinician(userId: string | null | undefined) {
+  if (!userId) return false;
+
+  return (
+    listUserIds(process.env.CLINICIAN_USER_IDS).includes(userId) ||
+    isAdmin(userId)
+  );
+}
+
+// Resolve the signed-in admin's user id, or throw a 401/403 APIError
+export async function requireAdmin() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new APIError("Authentication required", 401, "UNAUTHENTICATED");
+  }
+
+  if (!isAdmin(userId)) {
+    throw new APIError("Admin access required", 403, "FORBIDDEN");
+  }
+
+  return userId;
+}
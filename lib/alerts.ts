@@ -0,0 +1,296 @@
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+import { sendTestResultAlert } from "@/lib/email";
+import { getMLModel } from "@/lib/ml-models";
+import { AlertFinding, AlertSeverity, TestAlert } from "@/types/alert";
+import { LabResult, LabValue } from "@/types/lab";
+import { PredictionResult } from "@/types/prediction";
+
+/**
+ * Alert rules for new test results.
+ * Every stored prediction and lab result is checked against ALERT_RULES.
+ * Each broken rule becomes a test_alerts row, the patient is emailed, and
+ * the alert stays on the /doctor dashboard until a clinician acknowledges it.
+ *
+ * Thresholds:
+ * - ALERT_HIGH_RISK_PROBABILITY (default 0.5): predicted risk that raises a
+ *   warning, matching the "High risk detected" notice on the diagnostic page
+ * - ALERT_CRITICAL_RISK_PROBABILITY (default 0.8): risk that is critical
+ * - A lab value is critical at twice its reference maximum or half its
+ *   reference minimum; any other out-of-range value is a warning
+ */
+
+const HIGH_RISK_PROBABILITY = Number(
+  process.env.ALERT_HIGH_RISK_PROBABILITY || 0.5
+);
+const CRITICAL_RISK_PROBABILITY = Number(
+  process.env.ALERT_CRITICAL_RISK_PROBABILITY || 0.8
+);
+const CRITICAL_LAB_FACTOR = 2;
+
+// A newly stored result, as saved on the tests row
+export type AlertInput =
+  | { kind: "prediction"; result: PredictionResult }
+  | { kind: "lab"; labResult: LabResult };
+
+interface AlertRule {
+  id: string;
+  evaluate(input: AlertInput): Omit<AlertFinding, "rule"> | null;
+}
+
+const formatPercent = (probability: number) =>
+  `${(probability * 100).toFixed(1)}%`;
+
+function isCriticalLabValue({ value, referenceLow, referenceHigh }: LabValue) {
+  return (
+    (referenceHigh !== undefined &&
+      value >= referenceHigh * CRITICAL_LAB_FACTOR) ||
+    (referenceLow !== undefined && value <= referenceLow / CRITICAL_LAB_FACTOR)
+  );
+}
+
+export const ALERT_RULES: AlertRule[] = [
+  {
+    id: "high_risk_prediction",
+    evaluate(input) {
+      if (input.kind !== "prediction") return null;
+      const { result } = input;
+      if (result.probability <= HIGH_RISK_PROBABILITY) return null;
+
+      const modelName = getMLModel(result.model)?.name || result.model;
+      return {
+        severity:
+          result.probability >= CRITICAL_RISK_PROBABILITY
+            ? "critical"
+            : "warning",
+        message: `${modelName} risk of ${formatPercent(result.probability)}`,
+        details: {
+          model: result.model,
+          modelVersion: result.modelVersion,
+          probability: result.probability,
+          source: result.source,
+        },
+      };
+    },
+  },
+  {
+    id: "abnormal_lab_value",
+    evaluate(input) {
+      if (input.kind !== "lab") return null;
+      const abnormal = input.labResult.values.filter(
+        ({ flag }) => flag !== "normal"
+      );
+      if (abnormal.length === 0) return null;
+
+      const severity: AlertSeverity = abnormal.some(isCriticalLabValue)
+        ? "critical"
+        : "warning";
+      return {
+        severity,
+        message: `Out of range: ${abnormal
+          .map(
+            ({ label, value, unit, flag }) =>
+              `${label} ${value} ${unit} (${flag})`
+          )
+          .join(", ")}`,
+        details: { values: abnormal },
+      };
+    },
+  },
+];
+
+// Rules a result breaks, in rule order
+export function evaluateAlertRules(input: AlertInput): AlertFinding[] {
+  return ALERT_RULES.flatMap((rule) => {
+    const finding = rule.evaluate(input);
+    return finding ? [{ rule: rule.id, ...finding }] : [];
+  });
+}
+
+/**
+ * Check a newly stored result and raise alerts for the rules it breaks.
+ * A rule that already has an open alert on the test is not raised again.
+ * Failures are logged rather than thrown: alerting must not fail the
+ * request that stored the result.
+ */
+export async function raiseTestAlerts(testId: string, input: AlertInput) {
+  const findings = evaluateAlertRules(input);
+  if (findings.length === 0) return [];
+
+  try {
+    const supabase = createSupabaseServerClient();
+
+    const { data: test, error: testError } = await supabase
+      .from("tests")
+      .select("id, test_name, diagnostic_id")
+      .eq("id", testId)
+      .single();
+
+    if (testError || !test) {
+      throw new Error(`Failed to fetch test: ${testError?.message}`);
+    }
+
+    const { data: diagnostic, error: diagnosticError } = await supabase
+      .from("diagnostics")
+      .select("user_id")
+      .eq("id", test.diagnostic_id)
+      .single();
+
+    if (diagnosticError || !diagnostic) {
+      throw new Error(
+        `Failed to fetch diagnostic: ${diagnosticError?.message}`
+      );
+    }
+
+    const { data: openAlerts, error: openError } = await supabase
+      .from("test_alerts")
+      .select("rule")
+      .eq("test_id", testId)
+      .is("acknowledged_at", null);
+
+    if (openError) {
+      throw new Error(`Failed to fetch open alerts: ${openError.message}`);
+    }
+
+    const openRules = new Set((openAlerts || []).map(({ rule }) => rule));
+    const newFindings = findings.filter(({ rule }) => !openRules.has(rule));
+    if (newFindings.length === 0) return [];
+
+    const { data: inserted, error: insertError } = await supabase
+      .from("test_alerts")
+      .insert(
+        newFindings.map((finding) => ({
+          user_id: diagnostic.user_id,
+          diagnostic_id: test.diagnostic_id,
+          test_id: testId,
+          test_name: test.test_name,
+          rule: finding.rule,
+          severity: finding.severity,
+          message: finding.message,
+          details: finding.details,
+        }))
+      )
+      .select("id");
+
+    if (insertError) {
+      throw new Error(`Failed to store alerts: ${insertError.message}`);
+    }
+
+    console.log(
+      `🚨 Raised ${newFindings.length} alert(s) on test ${testId}:`,
+      newFindings.map(({ rule, severity }) => `${rule} (${severity})`)
+    );
+
+    await notifyPatient(
+      diagnostic.user_id,
+      test.test_name,
+      newFindings,
+      (inserted || []).map(({ id }) => id)
+    );
+
+    return newFindings;
+  } catch (error) {
+    console.error("❌ Failed to raise test alerts:", error);
+    return [];
+  }
+}
+
+// Email the patient about new alerts and record that they were told
+async function notifyPatient(
+  userId: string,
+  testName: string,
+  findings: AlertFinding[],
+  alertIds: string[]
+) {
+  const supabase = createSupabaseServerClient();
+
+  const { data: user } = await supabase
+    .from("users")
+    .select("first_name, email")
+    .eq("clerk_user_id", userId)
+    .maybeSingle();
+
+  if (!user?.email) {
+    console.warn(`⚠️ No email for user ${userId}; alert email not sent`);
+    return;
+  }
+
+  const { success } = await sendTestResultAlert({
+    to: user.email,
+    name: user.first_name || "there",
+    testName,
+    findings,
+  });
+  if (!success) return;
+
+  const { error } = await supabase
+    .from("test_alerts")
+    .update({ patient_notified_at: new Date().toISOString() })
+    .in("id", alertIds);
+
+  if (error) {
+    console.error("Failed to record alert email:", error);
+  }
+}
+
+// Unacknowledged alerts for the doctor dashboard, critical first
+export async function getOpenAlerts(): Promise<TestAlert[]> {
+  const supabase = createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("test_alerts")
+    .select("*, user:users!user_id (first_name, last_name)")
+    .is("acknowledged_at", null)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch alerts: ${error.message}`);
+  }
+
+  return (data || [])
+    .map((row): TestAlert => ({
+      id: row.id,
+      userId: row.user_id,
+      diagnosticId: row.diagnostic_id,
+      testId: row.test_id,
+      testName: row.test_name,
+      patientName: row.user
+        ? `${row.user.first_name} ${row.user.last_name}`
+        : null,
+      rule: row.rule,
+      severity: row.severity,
+      message: row.message,
+      details: row.details || {},
+      patientNotifiedAt: row.patient_notified_at,
+      acknowledgedAt: row.acknowledged_at,
+      acknowledgedBy: row.acknowledged_by,
+      createdAt: row.created_at,
+    }))
+    .sort(
+      (a, b) =>
+        Number(b.severity === "critical") - Number(a.severity === "critical")
+    );
+}
+
+/**
+ * Mark an alert as seen by a clinician.
+ * Returns false when the alert does not exist or was already acknowledged.
+ */
+export async function acknowledgeAlert(alertId: string, clinicianId: string) {
+  const supabase = createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("test_alerts")
+    .update({
+      acknowledged_at: new Date().toISOString(),
+      acknowledged_by: clinicianId,
+    })
+    .eq("id", alertId)
+    .is("acknowledged_at", null)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to acknowledge alert: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
@@ -0,0 +1,597 @@
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+import { APIError } from "@/lib/api-utils";
+import {
+  AvailabilityClosure,
+  AvailabilityDay,
+  AvailabilitySlot,
+  AvailabilityTemplate,
+} from "@/types/availability";
+
+/**
+ * Appointment availability.
+ * Slots are generated from weekly templates (availability_templates: working
+ * hours, slot length and breaks per provider, location and weekday), minus
+ * closures (availability_closures: holidays), slots whose capacity is taken
+ * by non-cancelled appointments, and slots starting within
+ * AVAILABILITY_MIN_LEAD_MINUTES (default 60) from now.
+ *
+ * Bookings go through bookAppointmentSlot, which re-checks capacity and the
+ * patient's other appointments atomically in the database. Patients move
+ * their own appointments with rescheduleAppointment, which does the same and
+ * also enforces the reschedule policy:
+ * - RESCHEDULE_MIN_NOTICE_HOURS (default 24): no changes closer to the
+ *   appointment than this
+ * - RESCHEDULE_MAX_COUNT (default 2): moves allowed per appointment
+ *
+ * Template times are local to the template's time zone; slots carry both
+ * the UTC instant and the local date and time for display. When the
+ * templates cannot be read, DEFAULT_AVAILABILITY is used instead.
+ */
+
+export const MAX_RANGE_DAYS = 31;
+export const DEFAULT_RANGE_DAYS = 14;
+const ALTERNATIVE_SEARCH_DAYS = 7;
+// Length assumed for appointments booked before slots had an end time
+const LEGACY_APPOINTMENT_MINUTES = 30;
+const MIN_LEAD_MINUTES = Number(
+  process.env.AVAILABILITY_MIN_LEAD_MINUTES || 60
+);
+export const RESCHEDULE_MIN_NOTICE_HOURS = Number(
+  process.env.RESCHEDULE_MIN_NOTICE_HOURS || 24
+);
+export const RESCHEDULE_MAX_COUNT = Number(
+  process.env.RESCHEDULE_MAX_COUNT || 2
+);
+
+const DEFAULT_PROVIDER = {
+  providerId: "curanova_diagnostics",
+  providerName: "CuraNova Diagnostics",
+  location: "Tampa General Hospital",
+  timezone: "America/New_York",
+};
+
+// Weekdays 8-5 with a lunch break, Saturday mornings
+export const DEFAULT_AVAILABILITY: AvailabilityTemplate[] = [
+  ...[1, 2, 3, 4, 5].map((weekday) => ({
+    ...DEFAULT_PROVIDER,
+    weekday,
+    startTime: "08:00",
+    endTime: "17:00",
+    slotMinutes: 30,
+    capacity: 1,
+    breaks: [{ start: "12:00", end: "13:00" }],
+  })),
+  {
+    ...DEFAULT_PROVIDER,
+    weekday: 6,
+    startTime: "09:00",
+    endTime: "12:00",
+    slotMinutes: 30,
+    capacity: 1,
+    breaks: [],
+  },
+];
+
+interface AvailabilityTemplateRow {
+  provider_id: string;
+  provider_name: string;
+  location: string;
+  timezone: string;
+  weekday: number;
+  start_time: string; // HH:MM:SS
+  end_time: string;
+  slot_minutes: number;
+  capacity: number;
+  breaks: AvailabilityTemplate["breaks"] | null;
+}
+
+// "HH:MM" (or "HH:MM:SS") -> minutes after midnight
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(minutes: number) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+// YYYY-MM-DD plus a number of days
+export function addDaysToDate(date: string, days: number) {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+// Offset of a time zone from UTC at an instant, in minutes
+function getTimeZoneOffset(instant: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(instant)
+      .map(({ type, value }) => [type, Number(value)])
+  );
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return (asUtc - instant.getTime()) / 60000;
+}
+
+// The instant a local date and time occur in a time zone
+export function zonedTimeToUtc(date: string, time: string, timeZone: string) {
+  const guess = new Date(`${date}T${time}:00Z`);
+  const offset = getTimeZoneOffset(guess, timeZone);
+  const instant = new Date(guess.getTime() - offset * 60000);
+
+  // The offset can differ at the real instant when DST changes in between
+  const actualOffset = getTimeZoneOffset(instant, timeZone);
+  return actualOffset === offset
+    ? instant
+    : new Date(guess.getTime() - actualOffset * 60000);
+}
+
+// Local start time for display, e.g. "09:30 AM"
+export function formatSlotTime(instant: Date, timeZone: string) {
+  return instant.toLocaleTimeString("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Every slot the templates offer between two local dates (inclusive),
+ * skipping breaks and closed days, with their full capacity remaining.
+ * Booked and past slots are not removed.
+ */
+export function generateSlots(
+  templates: AvailabilityTemplate[],
+  closures: AvailabilityClosure[],
+  from: string,
+  to: string
+): AvailabilitySlot[] {
+  const slots: AvailabilitySlot[] = [];
+
+  for (let date = from; date <= to; date = addDaysToDate(date, 1)) {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+
+    for (const template of templates) {
+      if (template.weekday !== weekday) continue;
+
+      const closed = closures.some(
+        (closure) =>
+          closure.date === date &&
+          closure.location === template.location &&
+          (closure.providerId === null ||
+            closure.providerId === template.providerId)
+      );
+      if (closed) continue;
+
+      const breaks = template.breaks.map((item) => ({
+        start: toMinutes(item.start),
+        end: toMinutes(item.end),
+      }));
+      const endOfDay = toMinutes(template.endTime);
+
+      for (
+        let start = toMinutes(template.startTime);
+        start + template.slotMinutes <= endOfDay;
+        start += template.slotMinutes
+      ) {
+        const end = start + template.slotMinutes;
+        if (breaks.some((item) => start < item.end && end > item.start)) {
+          continue;
+        }
+
+        const startsAt = zonedTimeToUtc(
+          date,
+          fromMinutes(start),
+          template.timezone
+        );
+        slots.push({
+          start: startsAt.toISOString(),
+          end: new Date(
+            startsAt.getTime() + template.slotMinutes * 60000
+          ).toISOString(),
+          date,
+          label: formatSlotTime(startsAt, template.timezone),
+          timezone: template.timezone,
+          capacity: template.capacity,
+          remaining: template.capacity,
+          providerId: template.providerId,
+          providerName: template.providerName,
+          location: template.location,
+        });
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * Validate a requested date range (YYYY-MM-DD, inclusive). Defaults to
+ * DEFAULT_RANGE_DAYS days from today.
+ */
+export function resolveDateRange(
+  from?: string | null,
+  to?: string | null
+): { from: string; to: string } | { error: string } {
+  const isDate = (value: string) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+  const start = from || new Date().toISOString().slice(0, 10);
+  if (!isDate(start)) {
+    return { error: "from and to must be dates in YYYY-MM-DD format" };
+  }
+
+  const end = to || addDaysToDate(start, DEFAULT_RANGE_DAYS - 1);
+  if (!isDate(end)) {
+    return { error: "from and to must be dates in YYYY-MM-DD format" };
+  }
+  if (end < start) {
+    return { error: "to must not be before from" };
+  }
+  if (end > addDaysToDate(start, MAX_RANGE_DAYS - 1)) {
+    return { error: `Date range must be at most ${MAX_RANGE_DAYS} days` };
+  }
+  return { from: start, to: end };
+}
+
+async function loadTemplates(): Promise<AvailabilityTemplate[]> {
+  try {
+    const supabase = createSupabaseServerClient();
+    const { data, error } = await supabase
+      .from("availability_templates")
+      .select("*")
+      .eq("active", true);
+
+    if (error) throw new Error(error.message);
+
+    return (data as AvailabilityTemplateRow[]).map((row) => ({
+      providerId: row.provider_id,
+      providerName: row.provider_name,
+      location: row.location,
+      timezone: row.timezone,
+      weekday: row.weekday,
+      startTime: row.start_time.slice(0, 5),
+      endTime: row.end_time.slice(0, 5),
+      slotMinutes: row.slot_minutes,
+      capacity: row.capacity,
+      breaks: row.breaks || [],
+    }));
+  } catch (error) {
+    console.warn(
+      "⚠️ Using built-in availability:",
+      error instanceof Error ? error.message : error
+    );
+    return DEFAULT_AVAILABILITY;
+  }
+}
+
+async function loadClosures(
+  from: string,
+  to: string
+): Promise<AvailabilityClosure[]> {
+  const supabase = createSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("availability_closures")
+    .select("provider_id, location, date, reason")
+    .gte("date", from)
+    .lte("date", to);
+
+  if (error) {
+    console.warn("⚠️ Could not load availability closures:", error.message);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    providerId: row.provider_id,
+    location: row.location,
+    date: row.date,
+    reason: row.reason,
+  }));
+}
+
+// Non-cancelled appointments per slot key ("providerId|ISO start")
+async function loadBookedSlots(fromInstant: string, toInstant: string) {
+  const supabase = createSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("appointments")
+    .select("provider_id, appointment_date")
+    .neq("status", "cancelled")
+    .gte("appointment_date", fromInstant)
+    .lt("appointment_date", toInstant);
+
+  if (error) {
+    throw new Error(`Failed to fetch booked slots: ${error.message}`);
+  }
+
+  const booked = new Map<string, number>();
+  for (const row of data || []) {
+    const key = `${row.provider_id}|${new Date(row.appointment_date).toISOString()}`;
+    booked.set(key, (booked.get(key) || 0) + 1);
+  }
+  return booked;
+}
+
+/**
+ * Open slots between two local dates (inclusive), grouped by date.
+ * Every date in the range is returned, with no slots when none are open.
+ */
+export async function getAvailableSlots({
+  from,
+  to,
+  providerId,
+  location,
+}: {
+  from: string;
+  to: string;
+  providerId?: string | null;
+  location?: string | null;
+}): Promise<AvailabilityDay[]> {
+  const templates = (await loadTemplates()).filter(
+    (template) =>
+      (!providerId || template.providerId === providerId) &&
+      (!location || template.location === location)
+  );
+
+  const closures = await loadClosures(from, to);
+  const slots = generateSlots(templates, closures, from, to);
+
+  const earliest = new Date(Date.now() + MIN_LEAD_MINUTES * 60000);
+  const booked =
+    slots.length > 0
+      ? await loadBookedSlots(slots[0].start, slots[slots.length - 1].end)
+      : new Map<string, number>();
+
+  const open = slots
+    .map((slot) => ({
+      ...slot,
+      remaining:
+        slot.capacity - (booked.get(`${slot.providerId}|${slot.start}`) || 0),
+    }))
+    .filter((slot) => new Date(slot.start) >= earliest && slot.remaining > 0);
+
+  const days: AvailabilityDay[] = [];
+  for (let date = from; date <= to; date = addDaysToDate(date, 1)) {
+    days.push({ date, slots: open.filter((slot) => slot.date === date) });
+  }
+  return days;
+}
+
+/**
+ * The open slot starting at an instant, or null when there is no such slot
+ * or it is no longer available. Without a providerId any provider matches.
+ */
+export async function findAvailableSlot(
+  start: string,
+  providerId?: string | null
+) {
+  const instant = new Date(start);
+  if (Number.isNaN(instant.getTime())) return null;
+
+  // The slot's local date is within a day of its UTC date
+  const utcDate = instant.toISOString().slice(0, 10);
+  const days = await getAvailableSlots({
+    from: addDaysToDate(utcDate, -1),
+    to: addDaysToDate(utcDate, 1),
+    providerId,
+  });
+
+  return (
+    days
+      .flatMap((day) => day.slots)
+      .find((slot) => slot.start === instant.toISOString()) || null
+  );
+}
+
+// Time ranges of the patient's non-cancelled appointments
+async function loadPatientAppointments(
+  userId: string,
+  fromInstant: string,
+  toInstant: string
+) {
+  const supabase = createSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("appointments")
+    .select("appointment_date, appointment_end")
+    .eq("user_id", userId)
+    .neq("status", "cancelled")
+    .gte("appointment_date", fromInstant)
+    .lt("appointment_date", toInstant);
+
+  if (error) {
+    throw new Error(`Failed to fetch patient appointments: ${error.message}`);
+  }
+
+  return (data || []).map((row) => {
+    const start = new Date(row.appointment_date).getTime();
+    return {
+      start,
+      end: row.appointment_end
+        ? new Date(row.appointment_end).getTime()
+        : start + LEGACY_APPOINTMENT_MINUTES * 60000,
+    };
+  });
+}
+
+/**
+ * Open slots closest in time to a requested start, offered when the
+ * requested slot cannot be booked. Searches the following week; slots that
+ * overlap the patient's other appointments are left out.
+ */
+export async function suggestAlternativeSlots(
+  start: string,
+  {
+    providerId,
+    userId,
+    limit = 3,
+  }: { providerId?: string | null; userId?: string; limit?: number } = {}
+) {
+  const requested = new Date(start);
+  if (Number.isNaN(requested.getTime())) return [];
+
+  const utcDate = requested.toISOString().slice(0, 10);
+  const days = await getAvailableSlots({
+    from: addDaysToDate(utcDate, -1),
+    to: addDaysToDate(utcDate, ALTERNATIVE_SEARCH_DAYS),
+    providerId,
+  });
+  let slots = days.flatMap((day) => day.slots);
+
+  if (userId && slots.length > 0) {
+    const booked = await loadPatientAppointments(
+      userId,
+      new Date(
+        new Date(slots[0].start).getTime() - LEGACY_APPOINTMENT_MINUTES * 60000
+      ).toISOString(),
+      slots[slots.length - 1].end
+    );
+    slots = slots.filter((slot) => {
+      const slotStart = new Date(slot.start).getTime();
+      const slotEnd = new Date(slot.end).getTime();
+      return !booked.some(
+        (item) => item.start < slotEnd && item.end > slotStart
+      );
+    });
+  }
+
+  return slots
+    .filter((slot) => slot.start !== requested.toISOString())
+    .sort(
+      (a, b) =>
+        Math.abs(new Date(a.start).getTime() - requested.getTime()) -
+        Math.abs(new Date(b.start).getTime() - requested.getTime())
+    )
+    .slice(0, limit)
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * Book a slot for a patient. The book_appointment_slot database function
+ * (sql/appointment_booking.sql) serializes bookings per patient and per slot,
+ * so the capacity and overlap checks cannot race. Throws a 409 APIError:
+ * - SLOT_FULL when the slot's capacity was taken meanwhile
+ * - PATIENT_OVERLAP when the patient already has an appointment at that time
+ */
+export async function bookAppointmentSlot({
+  userId,
+  diagnosticId,
+  slot,
+}: {
+  userId: string;
+  diagnosticId: string;
+  slot: AvailabilitySlot;
+}) {
+  const supabase = createSupabaseServerClient();
+  const { data, error } = await supabase.rpc("book_appointment_slot", {
+    p_user_id: userId,
+    p_diagnostic_id: diagnosticId,
+    p_provider_id: slot.providerId,
+    p_location: slot.location,
+    p_slot_start: slot.start,
+    p_slot_end: slot.end,
+    p_time_label: slot.label,
+    p_capacity: slot.capacity,
+  });
+
+  if (error) {
+    throwBookingError(error.message);
+    throw new Error(`Failed to book appointment: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Move a patient's appointment to another slot. The reschedule_appointment
+ * database function (sql/appointment_rescheduling.sql) takes the same locks
+ * as a booking, records the previous time in appointment_reschedules and
+ * enforces the reschedule policy. Throws an APIError: 404
+ * APPOINTMENT_NOT_FOUND, or 409 with one of the booking codes or
+ * APPOINTMENT_NOT_RESCHEDULABLE, RESCHEDULE_TOO_LATE,
+ * RESCHEDULE_LIMIT_REACHED.
+ */
+export async function rescheduleAppointment({
+  appointmentId,
+  userId,
+  slot,
+}: {
+  appointmentId: string;
+  userId: string;
+  slot: AvailabilitySlot;
+}) {
+  const supabase = createSupabaseServerClient();
+  const { data, error } = await supabase.rpc("reschedule_appointment", {
+    p_appointment_id: appointmentId,
+    p_user_id: userId,
+    p_provider_id: slot.providerId,
+    p_location: slot.location,
+    p_slot_start: slot.start,
+    p_slot_end: slot.end,
+    p_time_label: slot.label,
+    p_capacity: slot.capacity,
+    p_min_notice_hours: RESCHEDULE_MIN_NOTICE_HOURS,
+    p_max_reschedules: RESCHEDULE_MAX_COUNT,
+  });
+
+  if (error) {
+    throwBookingError(error.message);
+    throw new Error(`Failed to reschedule appointment: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Turn an exception raised by the booking functions into an APIError
+function throwBookingError(code: string) {
+  switch (code) {
+    case "SLOT_FULL":
+      throw new APIError(
+        "That time was just booked by someone else.",
+        409,
+        code
+      );
+    case "PATIENT_OVERLAP":
+      throw new APIError(
+        "You already have an appointment at that time.",
+        409,
+        code
+      );
+    case "APPOINTMENT_NOT_FOUND":
+      throw new APIError("Appointment not found", 404, code);
+    case "APPOINTMENT_NOT_RESCHEDULABLE":
+      throw new APIError(
+        "Only scheduled or confirmed appointments can be rescheduled.",
+        409,
+        code
+      );
+    case "RESCHEDULE_TOO_LATE":
+      throw new APIError(
+        `Appointments cannot be changed within ${RESCHEDULE_MIN_NOTICE_HOURS} hours of their start. Please call us instead.`,
+        409,
+        code
+      );
+    case "RESCHEDULE_LIMIT_REACHED":
+      throw new APIError(
+        `This appointment has already been rescheduled ${RESCHEDULE_MAX_COUNT} times. Please call us instead.`,
+        409,
+        code
+      );
+  }
+}
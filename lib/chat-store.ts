@@ -0,0 +1,317 @@
+import { APIError } from "@/lib/api-utils";
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+import {
+  ChatConversation,
+  ChatMessageMetadata,
+  StoredChatMessage,
+} from "@/types/chat";
+
+interface ChatMessageRecord {
+  id: string;
+  conversation_id: string;
+  message: string;
+  is_bot: boolean;
+  metadata: ChatMessageMetadata | null;
+  created_at: string;
+}
+
+interface ChatConversationRecord {
+  id: string;
+  title: string;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+  chat_messages?: { message: string; created_at: string }[];
+  diagnostics?: { id: string }[];
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+export const DEFAULT_CONVERSATION_TITLE = "New conversation";
+const MAX_TITLE_LENGTH = 80;
+
+const CONVERSATION_COLUMNS =
+  "id, title, archived_at, created_at, updated_at, chat_messages(message, created_at), diagnostics(id)";
+
+// Clamp a user supplied page size to a sane range
+export function parsePageSize(value: string | null) {
+  const limit = parseInt(value || "", 10);
+  if (Number.isNaN(limit) || limit < 1) return DEFAULT_PAGE_SIZE;
+  return Math.min(limit, MAX_PAGE_SIZE);
+}
+
+/**
+ * Split a "timestamp|id" page cursor. The id is optional so cursors holding
+ * only a timestamp keep working; anything else is rejected with a 400.
+ */
+function parseCursor(cursor: string) {
+  const [timestamp, id] = cursor.split("|");
+  if (Number.isNaN(Date.parse(timestamp)) || (id && !/^[\w-]+$/.test(id))) {
+    throw new APIError(`Invalid page cursor: ${cursor}`, 400, "INVALID_CURSOR");
+  }
+  return { timestamp, id };
+}
+
+// Trim a title to a single line of reasonable length
+export function normalizeConversationTitle(title: string) {
+  const singleLine = title.replace(/\s+/g, " ").trim();
+  if (singleLine.length <= MAX_TITLE_LENGTH) return singleLine;
+  return `${singleLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`;
+}
+
+function toChatConversation(record: ChatConversationRecord): ChatConversation {
+  return {
+    id: record.id,
+    title: record.title,
+    lastMessage: record.chat_messages?.[0]?.message ?? null,
+    diagnosticIds: (record.diagnostics || []).map(({ id }) => id),
+    archivedAt: record.archived_at,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  };
+}
+
+function toStoredChatMessage(record: ChatMessageRecord): StoredChatMessage {
+  return {
+    id: record.id,
+    conversationId: record.conversation_id,
+    role: record.is_bot ? "assistant" : "user",
+    content: record.message,
+    metadata: record.metadata,
+    createdAt: record.created_at,
+  };
+}
+
+/**
+ * Return the id of the user's conversation, creating a new one when no
+ * conversationId is given or it does not belong to the user.
+ * New conversations are titled after `titleHint` (usually the first message).
+ */
+export async function getOrCreateConversation(
+  userId: string,
+  conversationId?: string,
+  titleHint?: string
+) {
+  const supabase = createSupabaseServerClient();
+
+  if (conversationId) {
+    const { data } = await supabase
+      .from("chat_conversations")
+      .select("id")
+      .eq("id", conversationId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (data) return data.id as string;
+  }
+
+  const conversation = await createConversation(userId, titleHint);
+  return conversation.id;
+}
+
+// Create an empty conversation thread
+export async function createConversation(userId: string, title?: string) {
+  const supabase = createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("chat_conversations")
+    .insert({
+      user_id: userId,
+      title:
+        normalizeConversationTitle(title || "") || DEFAULT_CONVERSATION_TITLE,
+    })
+    .select(CONVERSATION_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create conversation: ${error.message}`);
+  }
+
+  return toChatConversation(data as ChatConversationRecord);
+}
+
+/**
+ * Rename and/or archive a conversation thread.
+ * Returns null when the conversation does not belong to the user.
+ */
+export async function updateConversation(
+  userId: string,
+  conversationId: string,
+  { title, archived }: { title?: string; archived?: boolean }
+) {
+  const supabase = createSupabaseServerClient();
+
+  const updates: Record<string, string | null> = {};
+  if (title !== undefined) {
+    updates.title =
+      normalizeConversationTitle(title) || DEFAULT_CONVERSATION_TITLE;
+  }
+  if (archived !== undefined) {
+    updates.archived_at = archived ? new Date().toISOString() : null;
+  }
+
+  const { data, error } = await supabase
+    .from("chat_conversations")
+    .update(updates)
+    .eq("id", conversationId)
+    .eq("user_id", userId)
+    .select(CONVERSATION_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update conversation: ${error.message}`);
+  }
+
+  return data ? toChatConversation(data as ChatConversationRecord) : null;
+}
+
+// Persist a single chat turn and bump the conversation's updated_at
+export async function saveChatMessage({
+  userId,
+  conversationId,
+  content,
+  isBot,
+  metadata,
+}: {
+  userId: string;
+  conversationId: string;
+  content: string;
+  isBot: boolean;
+  metadata?: ChatMessageMetadata;
+}) {
+  const supabase = createSupabaseServerClient();
+
+  const { error } = await supabase.from("chat_messages").insert({
+    user_id: userId,
+    conversation_id: conversationId,
+    message: content,
+    is_bot: isBot,
+    metadata: metadata || null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save chat message: ${error.message}`);
+  }
+
+  await supabase
+    .from("chat_conversations")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", conversationId);
+}
+
+/**
+ * List a user's conversations, most recently active first.
+ * Archived threads are only returned when `archived` is true.
+ * Pass the returned nextCursor as `before` to get the next page. The cursor
+ * is "updatedAt|id" of the last conversation, so threads sharing an
+ * updated_at across a page boundary are not skipped.
+ */
+export async function listConversations(
+  userId: string,
+  {
+    limit = DEFAULT_PAGE_SIZE,
+    before,
+    archived = false,
+  }: { limit?: number; before?: string; archived?: boolean }
+) {
+  const supabase = createSupabaseServerClient();
+
+  let query = supabase
+    .from("chat_conversations")
+    .select(CONVERSATION_COLUMNS)
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false })
+    .order("id", { ascending: false })
+    .order("created_at", {
+      referencedTable: "chat_messages",
+      ascending: false,
+    })
+    .limit(1, { referencedTable: "chat_messages" })
+    .limit(limit + 1);
+
+  query = archived
+    ? query.not("archived_at", "is", null)
+    : query.is("archived_at", null);
+
+  if (before) {
+    const { timestamp: updatedAt, id } = parseCursor(before);
+    query = id
+      ? query.or(
+          `updated_at.lt."${updatedAt}",and(updated_at.eq."${updatedAt}",id.lt.${id})`
+        )
+      : query.lt("updated_at", updatedAt);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch conversations: ${error.message}`);
+  }
+
+  const records = (data || []) as ChatConversationRecord[];
+  const page = records.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    conversations: page.map(toChatConversation),
+    nextCursor: records.length > limit ? `${last.updated_at}|${last.id}` : null,
+  };
+}
+
+/**
+ * Fetch a page of messages from a conversation in chronological order.
+ * Pages go backwards in time: pass the returned nextCursor as `before` to
+ * get earlier messages. The cursor is "createdAt|id" of the oldest message
+ * loaded, so messages sharing a created_at across a page boundary are not
+ * skipped.
+ * Returns null when the conversation does not belong to the user.
+ */
+export async function listConversationMessages(
+  userId: string,
+  conversationId: string,
+  { limit = DEFAULT_PAGE_SIZE, before }: { limit?: number; before?: string }
+) {
+  const supabase = createSupabaseServerClient();
+
+  const { data: conversation } = await supabase
+    .from("chat_conversations")
+    .select("id")
+    .eq("id", conversationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!conversation) return null;
+
+  let query = supabase
+    .from("chat_messages")
+    .select("id, conversation_id, message, is_bot, metadata, created_at")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit + 1);
+
+  if (before) {
+    const { timestamp: createdAt, id } = parseCursor(before);
+    query = id
+      ? query.or(
+          `created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`
+        )
+      : query.lt("created_at", createdAt);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch chat messages: ${error.message}`);
+  }
+
+  const records = (data || []) as ChatMessageRecord[];
+  const page = records.slice(0, limit);
+  const oldest = page[page.length - 1];
+
+  return {
+    messages: page.reverse().map(toStoredChatMessage),
+    nextCursor:
+      records.length > limit ? `${oldest.created_at}|${oldest.id}` : null,
+  };
+}
@@ -0,0 +1,152 @@
+import { ChatErrorCode, ChatStreamEvent, WorkerResponse } from "@/types/chat";
+
+const encoder = new TextEncoder();
+
+// Error raised by the chat client when /api/chat reports a failure
+export class ChatStreamError extends Error {
+  constructor(
+    message: string,
+    public code: ChatErrorCode
+  ) {
+    super(message);
+    this.name = "ChatStreamError";
+  }
+}
+
+// Serialize a chat stream event in server-sent event wire format
+export function encodeChatEvent({ event, data }: ChatStreamEvent) {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Parse a server-sent event stream into { event, data } pairs.
+ * Used both server-side (reading a streaming worker) and client-side
+ * (reading /api/chat). Multi-line data fields are joined with "\n".
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+
+        const parsed = parseEventBlock(rawEvent);
+        if (parsed) yield parsed;
+
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    // Flush a trailing event that was not followed by a blank line
+    const parsed = parseEventBlock(buffer + decoder.decode());
+    if (parsed) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventBlock(block: string) {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue;
+
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value =
+      separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "event") event = value;
+    if (field === "data") dataLines.push(value);
+  }
+
+  if (dataLines.length === 0) return null;
+
+  return { event, data: dataLines.join("\n") };
+}
+
+/**
+ * Relay a worker HTTP response as reply tokens and resolve with the final
+ * WorkerResponse. Supports three worker output formats:
+ * - text/event-stream: `data:` JSON chunks carrying `delta` tokens, with the
+ *   structured response ({ type, reply, ... }) as the last chunk
+ * - application/json: a single WorkerResponse, relayed as one token
+ * - anything else: plain chunked text, treated as a type "none" reply
+ */
+export async function relayWorkerResponse(
+  response: Response,
+  onToken: (delta: string) => void
+): Promise<WorkerResponse> {
+  const contentType = response.headers.get("content-type") || "";
+
+  if (!response.body) {
+    throw new Error("Worker returned an empty response body");
+  }
+
+  if (contentType.includes("text/event-stream")) {
+    let text = "";
+    let final: Partial<WorkerResponse> | null = null;
+
+    for await (const { data } of readServerSentEvents(response.body)) {
+      if (data === "[DONE]") continue;
+
+      const chunk = JSON.parse(data);
+      if (typeof chunk.delta === "string") {
+        text += chunk.delta;
+        onToken(chunk.delta);
+      } else if (typeof chunk.type === "string") {
+        final = chunk;
+      }
+    }
+
+    return {
+      type: "none",
+      ...final,
+      reply: final?.reply || text,
+    } as WorkerResponse;
+  }
+
+  if (contentType.includes("application/json")) {
+    const workerData: WorkerResponse = await response.json();
+    if (workerData.reply) onToken(workerData.reply);
+    return workerData;
+  }
+
+  // Plain chunked text
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const delta = decoder.decode(value, { stream: true });
+    if (delta) {
+      text += delta;
+      onToken(delta);
+    }
+  }
+
+  const tail = decoder.decode();
+  if (tail) {
+    text += tail;
+    onToken(tail);
+  }
+
+  return { type: "none", reply: text };
+}
@@ -0,0 +1,62 @@
+/**
+ * Minimal CSV parser for uploaded patient lists (RFC 4180 quoting: fields in
+ * double quotes may contain commas, newlines and "" escaped quotes).
+ * The first line is the header; each following line becomes an object keyed
+ * by header name. Blank lines are skipped, as is a leading byte order mark
+ * (Excel adds one when saving as "CSV UTF-8").
+ */
+export function parseCsv(input: string): Record<string, string>[] {
+  const text = input.replace(/^\uFEFF/, "");
+  const lines: string[][] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      fields.push(field);
+      lines.push(fields);
+      fields = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    lines.push(fields);
+  }
+
+  const rows = lines.filter((line) => line.some((value) => value.trim()));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((name) => name.trim());
+  return rows
+    .slice(1)
+    .map((line) =>
+      Object.fromEntries(
+        header.map((name, index) => [name, (line[index] ?? "").trim()])
+      )
+    );
+}
@@ -1,6 +1,18 @@
 import { Resend } from 'resend';
+import { AlertFinding } from '@/types/alert';
 
-const resend = new Resend(process.env.RESEND_API_KEY);
+// Created per send: Resend throws when RESEND_API_KEY is missing, which
+// would otherwise fail every module that imports this one
+const getResend = () => new Resend(process.env.RESEND_API_KEY);
+
+// Escape text built from user input before putting it in email HTML
+const escapeHtml = (value: string) =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
 
 export const sendAppointmentConfirmation = async ({
     to,
@@ -14,7 +26,7 @@ export const sendAppointmentConfirmation = async ({
     time: string;
 }) => {
     try {
-        const { data, error } = await resend.emails.send({
+        const { data, error } = await getResend().emails.send({
             from: 'Curanova <appointments@curanova.com>',
             to: [to],
             subject: 'Your Appointment is Confirmed',
@@ -51,7 +63,7 @@ export const sendDiagnosticResults = async ({
     result: any;
 }) => {
     try {
-        const { data, error } = await resend.emails.send({
+        const { data, error } = await getResend().emails.send({
             from: 'Curanova <diagnostics@curanova.com>',
             to: [to],
             subject: `Your ${diagnosisType} Results`,
@@ -73,4 +85,87 @@ export const sendDiagnosticResults = async ({
         console.error('Error sending email:', error);
         return { success: false, error };
     }
-};
\ No newline at end of file
+};
+
+export const sendTestResultAlert = async ({
+    to,
+    name,
+    testName,
+    findings,
+}: {
+    to: string;
+    name: string;
+    testName: string;
+    findings: AlertFinding[];
+}) => {
+    try {
+        const { data, error } = await getResend().emails.send({
+            from: 'Curanova <diagnostics@curanova.com>',
+            to: [to],
+            subject: `Your ${testName} result needs attention`,
+            html: `
+        <h1>Test Result Alert</h1>
+        <p>Dear ${escapeHtml(name)},</p>
+        <p>Your ${escapeHtml(testName)} result is outside the expected range:</p>
+        <ul>
+          ${findings.map((finding) => `<li>${escapeHtml(finding.message)}</li>`).join('')}
+        </ul>
+        <p>A clinician has been notified and will review it. Please contact your healthcare provider or book an appointment to discuss this result.</p>
+      `,
+        });
+
+        if (error) {
+            throw error;
+        }
+
+        return { success: true, data };
+    } catch (error) {
+        console.error('Error sending email:', error);
+        return { success: false, error };
+    }
+};
+
+export const sendAppointmentRescheduled = async ({
+    to,
+    name,
+    date,
+    time,
+    location,
+    previousDate,
+    previousTime,
+}: {
+    to: string;
+    name: string;
+    date: string;
+    time: string;
+    location: string | null;
+    previousDate: string;
+    previousTime: string;
+}) => {
+    try {
+        const { data, error } = await getResend().emails.send({
+            from: 'Curanova <appointments@curanova.com>',
+            to: [to],
+            subject: `Your Appointment is Rescheduled - ${date} at ${time}`,
+            html: `
+        <h1>Appointment Rescheduled</h1>
+        <p>Dear ${escapeHtml(name)},</p>
+        <p>Your appointment has been moved to:</p>
+        <p>Date: ${escapeHtml(date)}</p>
+        <p>Time: ${escapeHtml(time)}</p>
+        ${location ? `<p>Location: ${escapeHtml(location)}</p>` : ''}
+        <p>It was previously booked for ${escapeHtml(previousDate)} at ${escapeHtml(previousTime)}.</p>
+        <p>Thank you for choosing Curanova!</p>
+      `,
+        });
+
+        if (error) {
+            throw error;
+        }
+
+        return { success: true, data };
+    } catch (error) {
+        console.error('Error sending email:', error);
+        return { success: false, error };
+    }
+};
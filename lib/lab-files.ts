@@ -0,0 +1,88 @@
+/**
+ * Lab result file rules, shared by the upload form (accept list, size hint)
+ * and the upload route (validation).
+ * The declared type is not trusted: the file's leading bytes must match it.
+ */
+
+export const MAX_LAB_FILE_BYTES = 10 * 1024 * 1024; // 10 MB
+
+const LAB_FILE_TYPES: Record<
+  string,
+  { extension: string; label: string; signature: number[] }
+> = {
+  "application/pdf": {
+    extension: "pdf",
+    label: "PDF",
+    signature: [0x25, 0x50, 0x44, 0x46, 0x2d], // %PDF-
+  },
+  "image/png": {
+    extension: "png",
+    label: "PNG",
+    signature: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  "image/jpeg": {
+    extension: "jpg",
+    label: "JPEG",
+    signature: [0xff, 0xd8, 0xff],
+  },
+};
+
+// For <input type="file" accept={...}>
+export const LAB_FILE_ACCEPT = Object.keys(LAB_FILE_TYPES).join(",");
+
+export const LAB_FILE_TYPE_LABELS = Object.values(LAB_FILE_TYPES)
+  .map(({ label }) => label)
+  .join(", ");
+
+export type LabFileErrorCode =
+  "EMPTY_FILE" | "FILE_TOO_LARGE" | "UNSUPPORTED_FILE_TYPE";
+
+// Leading bytes needed to check a file's signature
+export const LAB_FILE_HEADER_BYTES = 8;
+
+/**
+ * Validate an uploaded lab file from its declared type, size and leading
+ * bytes, so oversized files are rejected without reading them.
+ * Returns the content type and extension to store it under, or an error.
+ */
+export function validateLabFile(
+  file: { type: string; size: number },
+  header: Uint8Array
+):
+  | { ok: true; contentType: string; extension: string }
+  | { ok: false; code: LabFileErrorCode; error: string } {
+  if (file.size === 0) {
+    return { ok: false, code: "EMPTY_FILE", error: "The file is empty" };
+  }
+
+  if (file.size > MAX_LAB_FILE_BYTES) {
+    return {
+      ok: false,
+      code: "FILE_TOO_LARGE",
+      error: `Files must be ${MAX_LAB_FILE_BYTES / 1024 / 1024} MB or smaller`,
+    };
+  }
+
+  const type = LAB_FILE_TYPES[file.type];
+  const matches =
+    type && type.signature.every((byte, index) => header[index] === byte);
+
+  if (!matches) {
+    return {
+      ok: false,
+      code: "UNSUPPORTED_FILE_TYPE",
+      error: `Upload a ${LAB_FILE_TYPE_LABELS} file`,
+    };
+  }
+
+  return { ok: true, contentType: file.type, extension: type.extension };
+}
+
+// Content type for a stored object path, from its extension
+export function getLabFileContentType(objectPath: string) {
+  const extension = objectPath.split(".").pop()?.toLowerCase();
+  const entry = Object.entries(LAB_FILE_TYPES).find(
+    ([, type]) => type.extension === extension
+  );
+  return entry ? entry[0] : "application/octet-stream";
+}
@@ -0,0 +1,334 @@
+import { FieldError } from "@/types/prediction";
+import { LabResult, LabValue, LabValueFlag } from "@/types/lab";
+
+/**
+ * Result schemas for catalog tests entered as lab values rather than scored
+ * by an ML model. Each schema drives the generated entry form, server-side
+ * validation and out-of-range flagging.
+ *
+ * The live schema is the catalog entry's resultSchema (test_catalog
+ * .result_schema), editable by admins; LAB_RESULT_SCHEMAS seeds it.
+ *
+ * Reference ranges are typical adult ranges; labs vary, so a flag is a
+ * prompt to look closer, not a diagnosis.
+ */
+
+export interface LabAnalyte {
+  name: string; // Key in the submitted values
+  label: string;
+  unit: string;
+  referenceLow?: number; // Reference range (inclusive); open-ended if unset
+  referenceHigh?: number;
+  min: number; // Plausible bounds; values outside are rejected as typos
+  max: number;
+  step?: number; // Input precision
+  optional?: boolean;
+}
+
+export interface LabResultSchema {
+  testId: string; // Catalog test id
+  analytes: LabAnalyte[];
+}
+
+export const LAB_RESULT_SCHEMAS: LabResultSchema[] = [
+  {
+    testId: "kidney_function_test",
+    analytes: [
+      {
+        name: "bun",
+        label: "Blood Urea Nitrogen (BUN)",
+        unit: "mg/dL",
+        referenceLow: 7,
+        referenceHigh: 20,
+        min: 1,
+        max: 200,
+      },
+      {
+        name: "creatinine",
+        label: "Creatinine",
+        unit: "mg/dL",
+        referenceLow: 0.6,
+        referenceHigh: 1.3,
+        min: 0.1,
+        max: 25,
+        step: 0.01,
+      },
+      {
+        name: "egfr",
+        label: "eGFR",
+        unit: "mL/min/1.73m²",
+        referenceLow: 90,
+        min: 1,
+        max: 200,
+      },
+      {
+        name: "uacr",
+        label: "Urine Albumin-to-Creatinine Ratio",
+        unit: "mg/g",
+        referenceHigh: 30,
+        min: 0,
+        max: 5000,
+        optional: true,
+      },
+    ],
+  },
+  {
+    testId: "liver_enzyme_panel",
+    analytes: [
+      {
+        name: "alt",
+        label: "ALT",
+        unit: "U/L",
+        referenceLow: 7,
+        referenceHigh: 56,
+        min: 0,
+        max: 10000,
+      },
+      {
+        name: "ast",
+        label: "AST",
+        unit: "U/L",
+        referenceLow: 10,
+        referenceHigh: 40,
+        min: 0,
+        max: 10000,
+      },
+      {
+        name: "alp",
+        label: "Alkaline Phosphatase (ALP)",
+        unit: "U/L",
+        referenceLow: 44,
+        referenceHigh: 147,
+        min: 0,
+        max: 5000,
+      },
+      {
+        name: "bilirubin",
+        label: "Total Bilirubin",
+        unit: "mg/dL",
+        referenceLow: 0.1,
+        referenceHigh: 1.2,
+        min: 0,
+        max: 50,
+        step: 0.1,
+      },
+      {
+        name: "albumin",
+        label: "Albumin",
+        unit: "g/dL",
+        referenceLow: 3.5,
+        referenceHigh: 5,
+        min: 0.5,
+        max: 7,
+        step: 0.1,
+        optional: true,
+      },
+    ],
+  },
+  {
+    // Voice recording metrics (MDVP), with published pathology thresholds
+    testId: "parkinsons_screening",
+    analytes: [
+      {
+        name: "fo",
+        label: "Average Vocal Pitch (Fo)",
+        unit: "Hz",
+        referenceLow: 85,
+        referenceHigh: 255,
+        min: 50,
+        max: 400,
+        step: 0.1,
+      },
+      {
+        name: "jitter",
+        label: "Jitter",
+        unit: "%",
+        referenceHigh: 1.04,
+        min: 0,
+        max: 20,
+        step: 0.001,
+      },
+      {
+        name: "shimmer",
+        label: "Shimmer",
+        unit: "%",
+        referenceHigh: 3.81,
+        min: 0,
+        max: 50,
+        step: 0.01,
+      },
+      {
+        name: "nhr",
+        label: "Noise-to-Harmonics Ratio (NHR)",
+        unit: "ratio",
+        referenceHigh: 0.19,
+        min: 0,
+        max: 2,
+        step: 0.001,
+      },
+    ],
+  },
+];
+
+// Look up the seed result schema for a catalog test
+export function getLabSchema(testId: string) {
+  return LAB_RESULT_SCHEMAS.find((schema) => schema.testId === testId);
+}
+
+// Describe an analyte's reference range, e.g. "7–20 mg/dL" or "≥ 90 mL/min"
+export function describeReferenceRange(analyte: LabAnalyte) {
+  const { referenceLow: low, referenceHigh: high, unit } = analyte;
+  if (low !== undefined && high !== undefined) return `${low}–${high} ${unit}`;
+  if (low !== undefined) return `≥ ${low} ${unit}`;
+  if (high !== undefined) return `≤ ${high} ${unit}`;
+  return unit;
+}
+
+export function flagLabValue(analyte: LabAnalyte, value: number): LabValueFlag {
+  if (analyte.referenceLow !== undefined && value < analyte.referenceLow) {
+    return "low";
+  }
+  if (analyte.referenceHigh !== undefined && value > analyte.referenceHigh) {
+    return "high";
+  }
+  return "normal";
+}
+
+/**
+ * Validate submitted values against a test's schema and flag each against
+ * its reference range.
+ * Returns the structured result, or one error per invalid field.
+ */
+export function parseLabValues(
+  schema: LabResultSchema,
+  input: Record<string, unknown>
+): { labResult: LabResult } | { fieldErrors: FieldError[] } {
+  const values: LabValue[] = [];
+  const fieldErrors: FieldError[] = [];
+
+  for (const analyte of schema.analytes) {
+    const raw = input[analyte.name];
+
+    if (raw === undefined || raw === null || raw === "") {
+      if (!analyte.optional) {
+        fieldErrors.push({
+          field: analyte.name,
+          message: `${analyte.label} is required`,
+        });
+      }
+      continue;
+    }
+
+    const value = typeof raw === "number" ? raw : Number(raw);
+    if (!Number.isFinite(value)) {
+      fieldErrors.push({
+        field: analyte.name,
+        message: `${analyte.label} must be a number`,
+      });
+      continue;
+    }
+
+    if (value < analyte.min || value > analyte.max) {
+      fieldErrors.push({
+        field: analyte.name,
+        message: `${analyte.label} must be between ${analyte.min} and ${analyte.max} ${analyte.unit}`,
+      });
+      continue;
+    }
+
+    values.push({
+      analyte: analyte.name,
+      label: analyte.label,
+      value,
+      unit: analyte.unit,
+      referenceLow: analyte.referenceLow,
+      referenceHigh: analyte.referenceHigh,
+      flag: flagLabValue(analyte, value),
+    });
+  }
+
+  if (fieldErrors.length > 0) return { fieldErrors };
+
+  return {
+    labResult: {
+      testId: schema.testId,
+      values,
+      recordedAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Validate an admin-submitted list of analytes (test_catalog.result_schema).
+ * Returns the cleaned analytes, or an error describing the first problem.
+ */
+export function parseLabAnalytes(
+  payload: unknown
+): { analytes: LabAnalyte[] } | { error: string } {
+  if (!Array.isArray(payload) || payload.length === 0) {
+    return { error: "resultSchema must be a non-empty array of analytes" };
+  }
+
+  const analytes: LabAnalyte[] = [];
+  const optionalNumber = (value: unknown) =>
+    value === undefined || value === null || value === ""
+      ? undefined
+      : Number(value);
+
+  for (const [index, item] of payload.entries()) {
+    const raw = (item || {}) as Record<string, unknown>;
+    const at = `resultSchema[${index}]`;
+
+    const name = typeof raw.name === "string" ? raw.name.trim() : "";
+    if (!/^[a-z][a-z0-9_]*$/.test(name)) {
+      return { error: `${at}.name must be a lowercase identifier` };
+    }
+    if (analytes.some((analyte) => analyte.name === name)) {
+      return { error: `${at}.name "${name}" is repeated` };
+    }
+
+    const label = typeof raw.label === "string" ? raw.label.trim() : "";
+    const unit = typeof raw.unit === "string" ? raw.unit.trim() : "";
+    if (!label || !unit) {
+      return { error: `${at} needs a label and a unit` };
+    }
+
+    const min = Number(raw.min);
+    const max = Number(raw.max);
+    const referenceLow = optionalNumber(raw.referenceLow);
+    const referenceHigh = optionalNumber(raw.referenceHigh);
+    const step = optionalNumber(raw.step);
+
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) {
+      return { error: `${at} needs numeric min and max with min < max` };
+    }
+    if (
+      [referenceLow, referenceHigh, step].some(
+        (value) => value !== undefined && !Number.isFinite(value)
+      )
+    ) {
+      return { error: `${at} reference range and step must be numbers` };
+    }
+    if (
+      referenceLow !== undefined &&
+      referenceHigh !== undefined &&
+      referenceLow > referenceHigh
+    ) {
+      return { error: `${at}.referenceLow must not exceed referenceHigh` };
+    }
+
+    analytes.push({
+      name,
+      label,
+      unit,
+      referenceLow,
+      referenceHigh,
+      min,
+      max,
+      step,
+      optional: raw.optional === true || undefined,
+    });
+  }
+
+  return { analytes };
+}
@@ -0,0 +1,248 @@
+import { APIError } from "@/lib/api-utils";
+
+/**
+ * Shared client for the FastAPI ML backend (FAST_API_URL).
+ * - Every request has a timeout (ML_TIMEOUT_MS)
+ * - Network errors, timeouts and 5xx responses are retried with backoff,
+ *   up to ML_MAX_RETRIES times
+ * - After ML_CIRCUIT_FAILURE_THRESHOLD consecutive failed requests the
+ *   circuit opens and calls fail fast with a 503 ML_BACKEND_UNAVAILABLE
+ *   for ML_CIRCUIT_RESET_MS; the next call after that is a trial request
+ *   that closes the circuit again on success. Other calls keep failing fast
+ *   until the trial settles, so a recovering backend sees a single request
+ *
+ * Circuit state lives in memory, so each server instance tracks its own.
+ */
+
+type CircuitState = "closed" | "open" | "half_open";
+
+function readNumber(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const config = {
+  baseUrl: process.env.FAST_API_URL || "http://localhost:8000",
+  timeoutMs: readNumber("ML_TIMEOUT_MS", 10000),
+  maxRetries: readNumber("ML_MAX_RETRIES", 2),
+  retryDelayMs: readNumber("ML_RETRY_DELAY_MS", 250),
+  failureThreshold: readNumber("ML_CIRCUIT_FAILURE_THRESHOLD", 5),
+  resetMs: readNumber("ML_CIRCUIT_RESET_MS", 30000),
+  healthPath: process.env.ML_HEALTH_PATH || "/health",
+};
+
+const circuit = {
+  state: "closed" as CircuitState,
+  consecutiveFailures: 0,
+  openedAt: 0,
+  lastError: null as string | null,
+  trialInFlight: false,
+};
+
+// Snapshot of the circuit breaker for health reporting
+export function getCircuitStatus() {
+  return {
+    state: circuit.state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    openedAt: circuit.openedAt
+      ? new Date(circuit.openedAt).toISOString()
+      : null,
+    lastError: circuit.lastError,
+    trialInFlight: circuit.trialInFlight,
+  };
+}
+
+function recordSuccess() {
+  if (circuit.state !== "closed") {
+    console.log("✅ ML backend recovered, closing circuit");
+  }
+  circuit.state = "closed";
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = 0;
+  circuit.lastError = null;
+}
+
+function recordFailure(message: string) {
+  circuit.consecutiveFailures += 1;
+  circuit.lastError = message;
+
+  if (
+    circuit.state === "half_open" ||
+    circuit.consecutiveFailures >= config.failureThreshold
+  ) {
+    console.error(`🔌 ML backend circuit opened: ${message}`);
+    circuit.state = "open";
+    circuit.openedAt = Date.now();
+  }
+}
+
+// Fail fast while the circuit is open; let one trial through once it may
+// have recovered. Returns true when this call is that trial.
+function assertCircuitClosed() {
+  if (circuit.state === "closed") return false;
+
+  if (
+    circuit.state === "open" &&
+    Date.now() - circuit.openedAt >= config.resetMs
+  ) {
+    circuit.state = "half_open";
+  }
+
+  if (circuit.state === "half_open" && !circuit.trialInFlight) {
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  throw new APIError(
+    "ML backend is unavailable, please try again shortly",
+    503,
+    "ML_BACKEND_UNAVAILABLE"
+  );
+}
+
+// Errors worth retrying: the backend may answer next time
+class RetryableError extends Error {
+  constructor(
+    message: string,
+    public timedOut = false
+  ) {
+    super(message);
+    this.name = "RetryableError";
+  }
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new RetryableError(
+        `ML backend timed out after ${config.timeoutMs}ms`,
+        true
+      );
+    }
+    throw new RetryableError(
+      `ML backend request failed: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * POST a JSON payload to an ML backend path and return the parsed response.
+ * Throws APIError:
+ * - 503 ML_BACKEND_UNAVAILABLE: circuit open, or every attempt failed
+ * - 504 ML_BACKEND_TIMEOUT: the last attempt timed out
+ * - 502 ML_BACKEND_ERROR: the backend rejected the request (4xx)
+ */
+export async function postToMLBackend<T = unknown>(
+  path: string,
+  payload: unknown
+): Promise<T> {
+  const isTrial = assertCircuitClosed();
+
+  try {
+    return await requestMLBackend<T>(path, payload);
+  } finally {
+    if (isTrial) circuit.trialInFlight = false;
+  }
+}
+
+// One call with retries; the circuit has already let it through
+async function requestMLBackend<T>(path: string, payload: unknown) {
+  let lastError: RetryableError | null = null;
+
+  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+    if (attempt > 0) {
+      await sleep(config.retryDelayMs * 2 ** (attempt - 1));
+      console.warn(`🔁 Retrying ML backend (attempt ${attempt + 1})`);
+    }
+
+    try {
+      const response = await fetchWithTimeout(`${config.baseUrl}${path}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (response.status >= 500) {
+        const errorText = await response.text();
+        throw new RetryableError(
+          `ML API responded with status: ${response.status} - ${errorText}`
+        );
+      }
+
+      // The backend is up; a 4xx is a problem with this request
+      recordSuccess();
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`ML API Error (${response.status}):`, errorText);
+        throw new APIError(
+          `ML backend rejected the request: ${errorText}`,
+          502,
+          "ML_BACKEND_ERROR"
+        );
+      }
+
+      return (await response.json()) as T;
+    } catch (error) {
+      if (!(error instanceof RetryableError)) throw error;
+
+      console.error(`ML backend attempt ${attempt + 1} failed:`, error.message);
+      lastError = error;
+
+      // A failing trial request reopens the circuit straight away
+      if (circuit.state === "half_open") break;
+    }
+  }
+
+  recordFailure(lastError?.message || "Unknown error");
+
+  if (lastError?.timedOut) {
+    throw new APIError(lastError.message, 504, "ML_BACKEND_TIMEOUT");
+  }
+
+  throw new APIError(
+    "ML backend is unavailable, please try again shortly",
+    503,
+    "ML_BACKEND_UNAVAILABLE"
+  );
+}
+
+/**
+ * Probe the backend's health endpoint (ML_HEALTH_PATH) without retries.
+ * Does not affect the circuit; reports it alongside the probe result.
+ */
+export async function checkMLBackendHealth() {
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetchWithTimeout(
+      `${config.baseUrl}${config.healthPath}`,
+      { method: "GET" }
+    );
+
+    return {
+      status: response.ok ? ("ok" as const) : ("down" as const),
+      latencyMs: Date.now() - startedAt,
+      error: response.ok ? null : `Health check returned ${response.status}`,
+      circuit: getCircuitStatus(),
+    };
+  } catch (error) {
+    return {
+      status: "down" as const,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : "Unknown error",
+      circuit: getCircuitStatus(),
+    };
+  }
+}
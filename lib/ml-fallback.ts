@@ -0,0 +1,50 @@
+import { APIError } from "@/lib/api-utils";
+import { featureImpact, MLModel, ModelVersion } from "@/lib/ml-models";
+
+/**
+ * Built-in fallback scorer used by /api/predict/[model] when the ML backend
+ * is unavailable (down, timing out or behind an open circuit), so screening
+ * still works in demo environments and tests.
+ *
+ * Scores with a logistic risk equation built from the registry: the model's
+ * baseline log-odds plus each feature's coefficient times its distance from
+ * the healthy reference value. This is the same linear model the
+ * contribution breakdown uses, so the two always agree. Results are labelled
+ * `source: "fallback"`.
+ *
+ * Disable with ML_FALLBACK_ENABLED=false to surface backend errors instead.
+ */
+
+const FALLBACK_MODEL_VERSION_PREFIX = "fallback-";
+
+// Only an unreachable backend falls back; a backend that rejects the
+// request (ML_BACKEND_ERROR) is still reported as an error
+const FALLBACK_ERROR_CODES = ["ML_BACKEND_UNAVAILABLE", "ML_BACKEND_TIMEOUT"];
+
+export function canUseFallback(error: unknown) {
+  return (
+    process.env.ML_FALLBACK_ENABLED !== "false" &&
+    error instanceof APIError &&
+    FALLBACK_ERROR_CODES.includes(error.code || "")
+  );
+}
+
+// Score encoded feature values in place of the routed version; same shape
+// as the ML backend response
+export function scoreWithFallback(
+  model: MLModel,
+  version: ModelVersion,
+  values: Record<string, number>
+) {
+  const logOdds = model.features.reduce(
+    (sum, feature) => sum + featureImpact(feature, values),
+    model.baselineLogOdds
+  );
+  const probability = 1 / (1 + Math.exp(-logOdds));
+
+  return {
+    prediction: probability >= 0.5 ? 1 : 0,
+    probability: Number(probability.toFixed(4)),
+    model_version: `${FALLBACK_MODEL_VERSION_PREFIX}${version.version}`,
+  };
+}
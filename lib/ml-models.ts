@@ -0,0 +1,508 @@
+import { FeatureContribution, FieldError } from "@/types/prediction";
+
+/**
+ * Registry of ML prediction models served by the FastAPI backend.
+ * The /api/predict/[model] gateway is driven entirely by these entries:
+ * validation, feature-vector assembly and the upstream call. Adding a model
+ * for another catalog test is a new entry here, not a new route.
+ */
+
+export type ModelFeatureType = "number" | "integer" | "binary" | "category";
+
+export interface ModelFeature {
+  name: string; // Request field name
+  label: string;
+  type: ModelFeatureType;
+  unit?: string;
+  min?: number; // Physiologically plausible bounds (inclusive)
+  max?: number;
+  categories?: Record<string, number>; // Encoder for category features
+  // Explanation: log-odds change per unit of the encoded value, measured
+  // from a healthy reference value (approximate published coefficients)
+  coefficient: number;
+  reference: number;
+  profileField?: ProfileField; // Pre-filled from the patient's profile
+}
+
+// Values derivable from user_medical_info
+export type ProfileField = "age" | "bmi" | "sex";
+
+export interface MLModel {
+  id: string; // URL segment: /api/predict/<id>
+  name: string;
+  versions: ModelVersion[]; // Deployed versions and their default traffic split
+  features: ModelFeature[]; // In the order the model expects them
+  checks?: ModelCheck[]; // Cross-field checks run once every feature is valid
+  trendFeatures: string[]; // Key inputs tracked across repeated screenings
+  // Fallback scoring: log-odds of a positive result for a patient with every
+  // feature at its reference value
+  baselineLogOdds: number;
+}
+
+// One deployed version of a model on the ML backend
+export interface ModelVersion {
+  version: string; // Stored on every prediction it makes
+  upstreamPath: string; // Path on FAST_API_URL
+  weight: number; // Default share of traffic, relative to the other versions
+}
+
+// A rule spanning several features, evaluated on the encoded values
+export interface ModelCheck {
+  field: string; // Feature the error is reported against
+  message: string;
+  isValid: (values: Record<string, number>) => boolean;
+}
+
+export type FeatureInput = Record<string, unknown>;
+
+// Validated input, ready to score
+export interface FeatureVector {
+  features: number[]; // In model order, as sent to the backend
+  values: Record<string, number>; // Encoded values by feature name
+  inputData: FeatureInput; // Raw inputs echoed back to the client
+}
+
+export const ML_MODELS: MLModel[] = [
+  {
+    id: "diabetes",
+    name: "Diabetes",
+    versions: [
+      { version: "1", upstreamPath: "/predict-diabetes", weight: 100 },
+    ],
+    baselineLogOdds: -2.2,
+    trendFeatures: ["glucose", "bmi"],
+    features: [
+      {
+        name: "pregnancies",
+        label: "Pregnancies",
+        type: "integer",
+        min: 0,
+        max: 20,
+        coefficient: 0.123,
+        reference: 1,
+      },
+      {
+        name: "glucose",
+        label: "Glucose",
+        type: "number",
+        unit: "mg/dL",
+        min: 40,
+        max: 600,
+        coefficient: 0.0352,
+        reference: 90,
+      },
+      {
+        name: "blood_pressure",
+        label: "Blood Pressure",
+        type: "number",
+        unit: "mmHg",
+        min: 30,
+        max: 150,
+        coefficient: -0.0133,
+        reference: 72,
+      },
+      {
+        name: "skin_thickness",
+        label: "Skin Thickness",
+        type: "number",
+        unit: "mm",
+        min: 0, // 0 when not measured
+        max: 100,
+        coefficient: 0.0006,
+        reference: 20,
+      },
+      {
+        name: "insulin",
+        label: "Insulin",
+        type: "number",
+        unit: "μU/mL",
+        min: 0, // 0 when not measured
+        max: 900,
+        coefficient: -0.0012,
+        reference: 80,
+      },
+      {
+        name: "bmi",
+        label: "BMI",
+        type: "number",
+        min: 10,
+        max: 80,
+        coefficient: 0.0897,
+        reference: 22,
+        profileField: "bmi",
+      },
+      {
+        name: "diabetes_pedigree",
+        label: "Diabetes Pedigree Function",
+        type: "number",
+        min: 0,
+        max: 2.5,
+        coefficient: 0.945,
+        reference: 0.3,
+      },
+      {
+        name: "age",
+        label: "Age",
+        type: "integer",
+        unit: "years",
+        min: 1,
+        max: 120,
+        coefficient: 0.0149,
+        reference: 30,
+        profileField: "age",
+      },
+    ],
+  },
+  {
+    id: "heart",
+    name: "Heart Disease",
+    versions: [
+      { version: "1", upstreamPath: "/predict-heart", weight: 100 },
+      // Retrained model, rolled out by raising its share in ML_TRAFFIC_HEART
+      { version: "2", upstreamPath: "/predict-heart-v2", weight: 0 },
+    ],
+    baselineLogOdds: -3.5,
+    trendFeatures: ["sysBP", "BMI", "totChol"],
+    features: [
+      {
+        name: "age",
+        label: "Age",
+        type: "integer",
+        unit: "years",
+        min: 18, // Trained on adults only
+        max: 120,
+        coefficient: 0.065,
+        reference: 40,
+        profileField: "age",
+      },
+      {
+        name: "sex",
+        label: "Sex",
+        type: "category",
+        categories: { M: 1, F: 0 },
+        coefficient: 0.55,
+        reference: 0,
+        profileField: "sex",
+      },
+      {
+        name: "is_smoking",
+        label: "Smoker",
+        type: "category",
+        categories: { YES: 1, NO: 0 },
+        coefficient: 0.05,
+        reference: 0,
+      },
+      {
+        name: "cigsPerDay",
+        label: "Cigarettes per Day",
+        type: "integer",
+        min: 0,
+        max: 100,
+        coefficient: 0.019,
+        reference: 0,
+      },
+      {
+        name: "BPMeds",
+        label: "On BP Medication",
+        type: "binary",
+        coefficient: 0.2,
+        reference: 0,
+      },
+      {
+        name: "prevalentStroke",
+        label: "Prior Stroke",
+        type: "binary",
+        coefficient: 0.8,
+        reference: 0,
+      },
+      {
+        name: "prevalentHyp",
+        label: "Hypertension",
+        type: "binary",
+        coefficient: 0.25,
+        reference: 0,
+      },
+      {
+        name: "diabetes",
+        label: "Diabetes",
+        type: "binary",
+        coefficient: 0.3,
+        reference: 0,
+      },
+      {
+        name: "totChol",
+        label: "Total Cholesterol",
+        type: "number",
+        unit: "mg/dL",
+        min: 80,
+        max: 700,
+        coefficient: 0.0024,
+        reference: 180,
+      },
+      {
+        name: "sysBP",
+        label: "Systolic BP",
+        type: "number",
+        unit: "mmHg",
+        min: 70,
+        max: 300,
+        coefficient: 0.016,
+        reference: 120,
+      },
+      {
+        name: "diaBP",
+        label: "Diastolic BP",
+        type: "number",
+        unit: "mmHg",
+        min: 40,
+        max: 200,
+        coefficient: -0.004,
+        reference: 80,
+      },
+      {
+        name: "BMI",
+        label: "BMI",
+        type: "number",
+        min: 10,
+        max: 80,
+        coefficient: 0.005,
+        reference: 22,
+        profileField: "bmi",
+      },
+      {
+        name: "heartRate",
+        label: "Heart Rate",
+        type: "number",
+        unit: "bpm",
+        min: 30,
+        max: 250,
+        coefficient: -0.002,
+        reference: 70,
+      },
+    ],
+    checks: [
+      {
+        field: "diaBP",
+        message: "Diastolic BP must be lower than systolic BP",
+        isValid: ({ sysBP, diaBP }) => diaBP < sysBP,
+      },
+      {
+        field: "cigsPerDay",
+        message: "Cigarettes per Day must be 0 for non-smokers",
+        isValid: ({ is_smoking, cigsPerDay }) =>
+          is_smoking === 1 || cigsPerDay === 0,
+      },
+    ],
+  },
+];
+
+// Look up a model by its gateway id
+export function getMLModel(modelId: string) {
+  return ML_MODELS.find((model) => model.id === modelId);
+}
+
+/**
+ * Traffic split between a model's versions. Defaults to the registry weights;
+ * ML_TRAFFIC_<MODEL> overrides them, e.g. ML_TRAFFIC_HEART="1=90,2=10".
+ * Unknown versions in the override are ignored.
+ */
+export function getTrafficSplit(model: MLModel) {
+  const override = process.env[`ML_TRAFFIC_${model.id.toUpperCase()}`];
+  if (!override) return model.versions;
+
+  const weights = new Map(
+    override.split(",").map((entry) => {
+      const [version, weight] = entry.split("=").map((part) => part.trim());
+      return [version, Number(weight)] as const;
+    })
+  );
+
+  const split = model.versions.map((version) => {
+    const weight = Number(weights.get(version.version));
+    return {
+      ...version,
+      weight: Number.isFinite(weight) && weight >= 0 ? weight : 0,
+    };
+  });
+
+  // A split that routes nowhere is a configuration mistake
+  if (split.every(({ weight }) => weight === 0)) {
+    console.warn(`Ignoring ML_TRAFFIC_${model.id.toUpperCase()}: no traffic`);
+    return model.versions;
+  }
+
+  return split;
+}
+
+// Stable 0-99 bucket for a routing key (FNV-1a)
+function trafficBucket(key: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+/**
+ * Pick the version that scores a request. Sticky: the same routing key (the
+ * tests row id) always lands on the same version for a given split, so a
+ * re-scored test is not compared across models.
+ */
+export function selectModelVersion(model: MLModel, routingKey: string) {
+  const split = getTrafficSplit(model);
+  const total = split.reduce((sum, { weight }) => sum + weight, 0);
+  const target = (trafficBucket(routingKey) / 100) * total;
+
+  let cumulative = 0;
+  for (const version of split) {
+    cumulative += version.weight;
+    if (version.weight > 0 && target < cumulative) return version;
+  }
+  return split.filter(({ weight }) => weight > 0).pop() || split[0];
+}
+
+// Describe a feature's allowed range, e.g. "between 70 and 300 mmHg"
+function describeRange(feature: ModelFeature) {
+  const unit = feature.unit ? ` ${feature.unit}` : "";
+  if (feature.min !== undefined && feature.max !== undefined) {
+    return `between ${feature.min} and ${feature.max}${unit}`;
+  }
+  if (feature.min !== undefined) return `at least ${feature.min}${unit}`;
+  return `at most ${feature.max}${unit}`;
+}
+
+// Encode a single feature value, or describe why it is invalid
+function encodeFeature(
+  feature: ModelFeature,
+  value: unknown
+): { value: number } | { error: string } {
+  if (value === undefined || value === null || value === "") {
+    return { error: `${feature.label} is required` };
+  }
+
+  if (feature.type === "category") {
+    const categories = feature.categories || {};
+    const key = String(value).toUpperCase();
+    if (!(key in categories)) {
+      return {
+        error: `${feature.label} must be one of: ${Object.keys(categories).join(", ")}`,
+      };
+    }
+    return { value: categories[key] };
+  }
+
+  const number = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(number)) {
+    return { error: `${feature.label} must be a number` };
+  }
+
+  if (feature.type === "binary" && number !== 0 && number !== 1) {
+    return { error: `${feature.label} must be 0 or 1` };
+  }
+
+  if (feature.type === "integer" && !Number.isInteger(number)) {
+    return { error: `${feature.label} must be a whole number` };
+  }
+
+  if (
+    (feature.min !== undefined && number < feature.min) ||
+    (feature.max !== undefined && number > feature.max)
+  ) {
+    return { error: `${feature.label} must be ${describeRange(feature)}` };
+  }
+
+  return { value: number };
+}
+
+/**
+ * Validate request input against a model's features and assemble the
+ * feature vector in model order.
+ * Returns the vector, or one error per invalid field.
+ */
+export function buildFeatureVector(
+  model: MLModel,
+  input: FeatureInput
+): FeatureVector | { fieldErrors: FieldError[] } {
+  const features: number[] = [];
+  const values: Record<string, number> = {};
+  const inputData: FeatureInput = {};
+  const fieldErrors: FieldError[] = [];
+
+  for (const feature of model.features) {
+    const encoded = encodeFeature(feature, input[feature.name]);
+    if ("error" in encoded) {
+      fieldErrors.push({ field: feature.name, message: encoded.error });
+      continue;
+    }
+    features.push(encoded.value);
+    values[feature.name] = encoded.value;
+    inputData[feature.name] = input[feature.name];
+  }
+
+  // Cross-field checks only make sense once every value is valid
+  if (fieldErrors.length === 0) {
+    for (const check of model.checks || []) {
+      if (!check.isValid(values)) {
+        fieldErrors.push({ field: check.field, message: check.message });
+      }
+    }
+  }
+
+  return fieldErrors.length > 0
+    ? { fieldErrors }
+    : { features, values, inputData };
+}
+
+// Format a feature's reference value for display, e.g. "120 mmHg" or "F"
+function formatReference(feature: ModelFeature) {
+  if (feature.type === "category") {
+    const entry = Object.entries(feature.categories || {}).find(
+      ([, encoded]) => encoded === feature.reference
+    );
+    return entry ? entry[0] : String(feature.reference);
+  }
+  if (feature.type === "binary") return feature.reference === 1 ? "Yes" : "No";
+  return feature.unit
+    ? `${feature.reference} ${feature.unit}`
+    : String(feature.reference);
+}
+
+// Log-odds change from a feature's reference value to the patient's value
+export function featureImpact(
+  feature: ModelFeature,
+  values: Record<string, number>
+) {
+  return feature.coefficient * (values[feature.name] - feature.reference);
+}
+
+/**
+ * Explain a prediction as per-feature contributions: how far each input
+ * moved the log-odds of a positive result away from a patient with healthy
+ * reference values. Ranked by absolute impact, largest first; features at
+ * their reference value are left out.
+ */
+export function explainPrediction(
+  model: MLModel,
+  values: Record<string, number>,
+  inputData: FeatureInput
+): FeatureContribution[] {
+  const impacts = model.features.map((feature) => ({
+    feature,
+    impact: featureImpact(feature, values),
+  }));
+
+  const total = impacts.reduce((sum, { impact }) => sum + Math.abs(impact), 0);
+
+  return impacts
+    .filter(({ impact }) => impact !== 0)
+    .sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact))
+    .map(({ feature, impact }) => ({
+      feature: feature.name,
+      label: feature.label,
+      value: inputData[feature.name],
+      reference: formatReference(feature),
+      impact: Number(impact.toFixed(4)),
+      share: total > 0 ? Number((Math.abs(impact) / total).toFixed(4)) : 0,
+    }));
+}
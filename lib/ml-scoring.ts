@@ -0,0 +1,69 @@
+import { postToMLBackend } from "@/lib/ml-client";
+import { canUseFallback, scoreWithFallback } from "@/lib/ml-fallback";
+import {
+  explainPrediction,
+  FeatureVector,
+  MLModel,
+  selectModelVersion,
+} from "@/lib/ml-models";
+import { PredictionResult, PredictionSource } from "@/types/prediction";
+
+// FastAPI returns {"prediction": 0 | 1, "probability": number}
+interface MLBackendPrediction {
+  prediction: number;
+  probability: number;
+  model_version?: string | number;
+}
+
+/**
+ * Score a validated feature vector: route it to one of the model's versions,
+ * call the ML backend and fall back to the built-in scorer when the backend
+ * is unavailable. Shared by the single and batch prediction routes.
+ * The routing key keeps traffic-split assignment sticky (e.g. the tests row id).
+ * Throws the ML client's APIError when the backend fails and no fallback
+ * applies.
+ */
+export async function scorePrediction(
+  model: MLModel,
+  vector: FeatureVector,
+  routingKey: string
+): Promise<{ result: PredictionResult; rawResponse: MLBackendPrediction }> {
+  const version = selectModelVersion(model, routingKey);
+  console.log(`🔀 Routing ${routingKey} to ${model.id} v${version.version}`);
+
+  const requestPayload = { features: vector.features };
+  console.log("📊 Sending to ML model:", requestPayload);
+
+  let mlResult: MLBackendPrediction;
+  let source: PredictionSource = "ml";
+
+  try {
+    mlResult = await postToMLBackend<MLBackendPrediction>(
+      version.upstreamPath,
+      requestPayload
+    );
+  } catch (error) {
+    if (!canUseFallback(error)) throw error;
+
+    console.warn(
+      `🛟 ML backend unavailable, scoring ${model.name} with the fallback scorer`
+    );
+    mlResult = scoreWithFallback(model, version, vector.values);
+    source = "fallback";
+  }
+  console.log("🤖 ML Model Response:", mlResult);
+
+  return {
+    result: {
+      model: model.id,
+      modelVersion: String(mlResult.model_version || version.version),
+      source,
+      inputs: vector.inputData,
+      prediction: mlResult.prediction,
+      probability: mlResult.probability,
+      contributions: explainPrediction(model, vector.values, vector.inputData),
+      predictedAt: new Date().toISOString(),
+    },
+    rawResponse: mlResult,
+  };
+}
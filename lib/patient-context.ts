@@ -0,0 +1,217 @@
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+import { PatientContext } from "@/types/chat";
+import { PredictionResult } from "@/types/prediction";
+
+// Keep the worker prompt small: only the most recent history is attached
+const MAX_PRIOR_DIAGNOSTICS = 5;
+const MAX_COMPLETED_TESTS = 10;
+
+interface MedicalInfoRecord {
+  age: number | null;
+  date_of_birth: string | null;
+  gender: string | null;
+  medical_conditions: string[] | null;
+  medications: string[] | null;
+  allergies: string[] | null;
+}
+
+interface DiagnosticRecord {
+  symptom: string;
+  ai_summary: string | null;
+  test_name: string | null;
+  created_at: string;
+}
+
+interface CompletedTestRecord {
+  test_id: string;
+  test_name: string;
+  result_file: string | null;
+  result: PredictionResult | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+// Year, month (1-12) and day of a YYYY-MM-DD date, or null when malformed
+function parseDateOfBirth(dateOfBirth: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(dateOfBirth);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return { year, month, day };
+}
+
+// Whole years between a YYYY-MM-DD date of birth and today. The date is
+// compared by its parts, not parsed as a UTC instant, so birthdays don't
+// shift by a day in local time.
+export function calculateAge(dateOfBirth: string, today = new Date()) {
+  const dob = parseDateOfBirth(dateOfBirth);
+  if (!dob) return null;
+
+  const month = today.getMonth() + 1;
+  let age = today.getFullYear() - dob.year;
+  const hadBirthday =
+    month > dob.month || (month === dob.month && today.getDate() >= dob.day);
+  if (!hadBirthday) age -= 1;
+
+  return age >= 0 ? age : null;
+}
+
+/**
+ * Store the date of birth given when scheduling tests, so age is computed
+ * from it (see calculateAge) instead of the stored age. Updates the user's
+ * latest user_medical_info row, creating one when there is none.
+ * Malformed or future dates are ignored. Failures are logged, not thrown.
+ */
+export async function saveDateOfBirth(userId: string, dateOfBirth: string) {
+  if (!parseDateOfBirth(dateOfBirth) || calculateAge(dateOfBirth) === null) {
+    return;
+  }
+
+  try {
+    const supabase = createSupabaseServerClient();
+    const date = dateOfBirth.slice(0, 10);
+
+    const { data: latest, error: fetchError } = await supabase
+      .from("user_medical_info")
+      .select("id")
+      .eq("user_id", userId)
+      .order("updated_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch medical info: ${fetchError.message}`);
+    }
+
+    const { error } = latest
+      ? await supabase
+          .from("user_medical_info")
+          .update({
+            date_of_birth: date,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", latest.id)
+      : await supabase
+          .from("user_medical_info")
+          .insert({ user_id: userId, date_of_birth: date });
+
+    if (error) {
+      throw new Error(`Failed to save date of birth: ${error.message}`);
+    }
+  } catch (error) {
+    console.error("❌ Failed to save date of birth:", error);
+  }
+}
+
+// Whether the user agreed to share their medical history with the AI worker
+export async function getChatContextConsent(userId: string) {
+  const supabase = createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("users")
+    .select("share_history_with_ai")
+    .eq("clerk_user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch chat consent: ${error.message}`);
+  }
+
+  return data?.share_history_with_ai === true;
+}
+
+// Record the user's choice; returns null when the user does not exist
+export async function setChatContextConsent(userId: string, enabled: boolean) {
+  const supabase = createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("users")
+    .update({
+      share_history_with_ai: enabled,
+      share_history_updated_at: new Date().toISOString(),
+    })
+    .eq("clerk_user_id", userId)
+    .select("share_history_with_ai")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update chat consent: ${error.message}`);
+  }
+
+  return data ? data.share_history_with_ai === true : null;
+}
+
+/**
+ * Assemble the patient's history for the AI worker: age, conditions,
+ * medications and allergies from user_medical_info, recent diagnostics with
+ * their AI summaries and completed tests.
+ * Does not check consent; callers must do that first.
+ */
+export async function buildPatientContext(
+  userId: string
+): Promise<PatientContext> {
+  const supabase = createSupabaseServerClient();
+
+  const [medicalInfoResult, diagnosticsResult, testsResult] = await Promise.all(
+    [
+      supabase
+        .from("user_medical_info")
+        .select(
+          "age, date_of_birth, gender, medical_conditions, medications, allergies"
+        )
+        .eq("user_id", userId)
+        .order("updated_at", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from("diagnostics")
+        .select("symptom, ai_summary, test_name, created_at")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(MAX_PRIOR_DIAGNOSTICS),
+      supabase
+        .from("tests")
+        .select(
+          "test_id, test_name, result_file, result, completed_at, updated_at, diagnostics!inner(user_id)"
+        )
+        .eq("diagnostics.user_id", userId)
+        .eq("status", "completed")
+        .order("updated_at", { ascending: false })
+        .limit(MAX_COMPLETED_TESTS),
+    ]
+  );
+
+  const error =
+    medicalInfoResult.error || diagnosticsResult.error || testsResult.error;
+  if (error) {
+    throw new Error(`Failed to build patient context: ${error.message}`);
+  }
+
+  const medicalInfo = medicalInfoResult.data as MedicalInfoRecord | null;
+  const diagnostics = (diagnosticsResult.data || []) as DiagnosticRecord[];
+  const tests = (testsResult.data || []) as CompletedTestRecord[];
+
+  return {
+    age: medicalInfo?.date_of_birth
+      ? calculateAge(medicalInfo.date_of_birth)
+      : (medicalInfo?.age ?? null),
+    gender: medicalInfo?.gender ?? null,
+    conditions: medicalInfo?.medical_conditions || [],
+    medications: medicalInfo?.medications || [],
+    allergies: medicalInfo?.allergies || [],
+    priorDiagnostics: diagnostics.map((diagnostic) => ({
+      symptom: diagnostic.symptom,
+      aiSummary: diagnostic.ai_summary,
+      testName: diagnostic.test_name,
+      createdAt: diagnostic.created_at,
+    })),
+    completedTests: tests.map((test) => ({
+      testId: test.test_id,
+      testName: test.test_name,
+      resultFile: test.result_file,
+      result: test.result,
+      completedAt: test.completed_at || test.updated_at,
+    })),
+  };
+}
@@ -0,0 +1,33 @@
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+
+/**
+ * Fetch a test that belongs to the patient, through its diagnostic.
+ * Returns null for another patient's test, so its existence isn't revealed.
+ */
+export async function findPatientTest(testId: string, userId: string) {
+  const supabase = createSupabaseServerClient();
+
+  const { data: testRecord, error: testError } = await supabase
+    .from("tests")
+    .select("id, test_id, result_file, diagnostic_id")
+    .eq("id", testId)
+    .maybeSingle();
+
+  if (testError) {
+    throw new Error(`Failed to fetch test: ${testError.message}`);
+  }
+  if (!testRecord) return null;
+
+  const { data: diagnostic, error: diagnosticError } = await supabase
+    .from("diagnostics")
+    .select("user_id")
+    .eq("id", testRecord.diagnostic_id)
+    .maybeSingle();
+
+  if (diagnosticError) {
+    throw new Error(`Failed to fetch diagnostic: ${diagnosticError.message}`);
+  }
+  if (diagnostic?.user_id !== userId) return null;
+
+  return testRecord;
+}
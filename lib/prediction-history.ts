@@ -0,0 +1,85 @@
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+import { MLModel } from "@/lib/ml-models";
+import {
+  PredictionResult,
+  RiskTrend,
+  RiskTrendDirection,
+  RiskTrendPoint,
+} from "@/types/prediction";
+
+/**
+ * Risk trend across a patient's repeated screenings.
+ * Reads the predictions stored on tests rows (tests.result) for one model,
+ * joined to diagnostics for the patient, so every completed screening is a
+ * point on the trend.
+ */
+
+const MAX_TREND_POINTS = 20;
+
+// A change in probability of at least 5 percentage points is worth flagging
+export const SIGNIFICANT_RISK_CHANGE = 0.05;
+
+function getDirection(change: number | null): RiskTrendDirection | null {
+  if (change === null) return null;
+  if (change >= SIGNIFICANT_RISK_CHANGE) return "rising";
+  if (change <= -SIGNIFICANT_RISK_CHANGE) return "falling";
+  return "stable";
+}
+
+// The patient's most recent predictions for a model, oldest first
+export async function getRiskTrend(
+  userId: string,
+  model: MLModel
+): Promise<RiskTrend> {
+  const supabase = createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("tests")
+    .select(
+      "id, diagnostic_id, result, completed_at, diagnostics!inner(user_id)"
+    )
+    .eq("diagnostics.user_id", userId)
+    .eq("result->>model", model.id)
+    .order("completed_at", { ascending: false })
+    .limit(MAX_TREND_POINTS);
+
+  if (error) {
+    throw new Error(`Failed to fetch prediction history: ${error.message}`);
+  }
+
+  const rows = (data || []).reverse();
+
+  const points = rows.map((row, index): RiskTrendPoint => {
+    const result = row.result as PredictionResult;
+    const previous =
+      index > 0 ? (rows[index - 1].result as PredictionResult) : null;
+
+    return {
+      testId: row.id,
+      diagnosticId: row.diagnostic_id,
+      predictedAt: result.predictedAt || row.completed_at,
+      probability: result.probability,
+      prediction: result.prediction,
+      modelVersion: result.modelVersion,
+      source: result.source || "ml",
+      inputs: Object.fromEntries(
+        model.trendFeatures.map((name) => [name, result.inputs?.[name] ?? null])
+      ),
+      change: previous
+        ? Number((result.probability - previous.probability).toFixed(4))
+        : null,
+    };
+  });
+
+  const features = model.trendFeatures.map((name) => {
+    const feature = model.features.find((item) => item.name === name);
+    return { name, label: feature?.label || name, unit: feature?.unit };
+  });
+
+  return {
+    model: model.id,
+    features,
+    points,
+    direction: getDirection(points.at(-1)?.change ?? null),
+  };
+}
@@ -0,0 +1,165 @@
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+import { calculateAge } from "@/lib/patient-context";
+import { MLModel, ModelFeature, ProfileField } from "@/lib/ml-models";
+import {
+  PredictionPrefill,
+  PredictionResult,
+  PrefillValue,
+} from "@/types/prediction";
+
+/**
+ * Suggested values for the ML test forms, so patients do not re-type what
+ * is already known:
+ * - the inputs of their last screening with the same model
+ * - age, BMI and sex derived from user_medical_info, which take precedence
+ *   because the profile is kept current
+ * Every value carries its provenance and stays editable in the form.
+ */
+
+interface ProfileRecord {
+  age: number | null;
+  date_of_birth: string | null;
+  gender: string | null;
+  weight: number | null; // kg
+  height: number | null; // cm
+}
+
+// Body mass index from weight in kg and height in cm, to one decimal
+export function calculateBmi(weightKg: number, heightCm: number) {
+  if (!(weightKg > 0) || !(heightCm > 0)) return null;
+  const heightM = heightCm / 100;
+  return Number((weightKg / (heightM * heightM)).toFixed(1));
+}
+
+function deriveProfileValue(
+  field: ProfileField,
+  profile: ProfileRecord
+): PrefillValue | null {
+  switch (field) {
+    case "age": {
+      const age = profile.date_of_birth
+        ? calculateAge(profile.date_of_birth)
+        : null;
+      if (age !== null) {
+        return { value: age, source: "profile", detail: "date of birth" };
+      }
+      return profile.age !== null
+        ? { value: profile.age, source: "profile", detail: "age" }
+        : null;
+    }
+    case "bmi": {
+      const bmi = calculateBmi(Number(profile.weight), Number(profile.height));
+      return bmi !== null
+        ? { value: bmi, source: "profile", detail: "height and weight" }
+        : null;
+    }
+    case "sex": {
+      const gender = profile.gender?.trim().toLowerCase();
+      if (gender === "male" || gender === "m") {
+        return { value: "M", source: "profile", detail: "gender" };
+      }
+      if (gender === "female" || gender === "f") {
+        return { value: "F", source: "profile", detail: "gender" };
+      }
+      return null;
+    }
+  }
+}
+
+// Suggested values are only useful if they pass the feature's validation
+function isPlausible(feature: ModelFeature, value: unknown) {
+  if (feature.type === "category") {
+    return String(value) in (feature.categories || {});
+  }
+  const number = Number(value);
+  return (
+    Number.isFinite(number) &&
+    (feature.type !== "binary" || number === 0 || number === 1) &&
+    (feature.type !== "integer" || Number.isInteger(number)) &&
+    (feature.min === undefined || number >= feature.min) &&
+    (feature.max === undefined || number <= feature.max)
+  );
+}
+
+/**
+ * Normalize a suggested value the way buildFeatureVector reads it (numbers,
+ * upper-case category keys) and drop it when it would fail validation, e.g.
+ * a previous input recorded before the feature's range was tightened.
+ */
+function checkPrefillValue(
+  feature: ModelFeature,
+  prefill: PrefillValue | null
+): PrefillValue | null {
+  if (!prefill || prefill.value === "") return null;
+  const value =
+    feature.type === "category"
+      ? String(prefill.value).toUpperCase()
+      : Number(prefill.value);
+  return isPlausible(feature, value) ? { ...prefill, value } : null;
+}
+
+export async function getPredictionPrefill(
+  userId: string,
+  model: MLModel
+): Promise<PredictionPrefill> {
+  const supabase = createSupabaseServerClient();
+
+  const [profileResult, previousResult] = await Promise.all([
+    supabase
+      .from("user_medical_info")
+      .select("age, date_of_birth, gender, weight, height")
+      .eq("user_id", userId)
+      .order("updated_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("tests")
+      .select("result, completed_at, diagnostics!inner(user_id)")
+      .eq("diagnostics.user_id", userId)
+      .eq("result->>model", model.id)
+      .order("completed_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (profileResult.error) {
+    throw new Error(
+      `Failed to fetch medical info: ${profileResult.error.message}`
+    );
+  }
+  if (previousResult.error) {
+    throw new Error(
+      `Failed to fetch previous result: ${previousResult.error.message}`
+    );
+  }
+
+  const profile = profileResult.data as ProfileRecord | null;
+  const previous = previousResult.data?.result as PredictionResult | undefined;
+  const fields: Record<string, PrefillValue> = {};
+
+  for (const feature of model.features) {
+    const previousValue = previous?.inputs?.[feature.name];
+    const fromPrevious =
+      previousValue !== undefined && previousValue !== null
+        ? checkPrefillValue(feature, {
+            value: previousValue,
+            source: "previous",
+            detail: "last screening",
+            recordedAt: previous?.predictedAt,
+          })
+        : null;
+
+    const fromProfile =
+      profile && feature.profileField
+        ? checkPrefillValue(
+            feature,
+            deriveProfileValue(feature.profileField, profile)
+          )
+        : null;
+
+    const prefill = fromProfile || fromPrevious;
+    if (prefill) fields[feature.name] = prefill;
+  }
+
+  return { model: model.id, fields };
+}
@@ -0,0 +1,117 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+
+/**
+ * Object storage for uploaded files (lab result PDFs and images).
+ * STORAGE_DRIVER selects the adapter:
+ * - "supabase" (default): Supabase Storage bucket STORAGE_BUCKET
+ * - "local": files under LOCAL_STORAGE_DIR, for development without a
+ *   bucket; downloads are served by /api/files with an HMAC-signed link
+ *
+ * Files are private. Callers store the object path and hand out short-lived
+ * signed URLs.
+ */
+
+export interface StorageAdapter {
+  upload(objectPath: string, data: Buffer, contentType: string): Promise<void>;
+  getSignedUrl(objectPath: string, expiresInSeconds: number): Promise<string>;
+}
+
+const BUCKET = process.env.STORAGE_BUCKET || "lab-results";
+const LOCAL_ROOT = path.resolve(process.env.LOCAL_STORAGE_DIR || ".uploads");
+
+const supabaseStorage: StorageAdapter = {
+  async upload(objectPath, data, contentType) {
+    const supabase = createSupabaseServerClient();
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(objectPath, data, { contentType, upsert: false });
+
+    if (error) {
+      throw new Error(`Failed to upload file: ${error.message}`);
+    }
+  },
+
+  async getSignedUrl(objectPath, expiresInSeconds) {
+    const supabase = createSupabaseServerClient();
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrl(objectPath, expiresInSeconds);
+
+    if (error || !data) {
+      throw new Error(
+        `Failed to sign file URL: ${error?.message || "no URL returned"}`
+      );
+    }
+    return data.signedUrl;
+  },
+};
+
+function getSigningSecret() {
+  const secret = process.env.STORAGE_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error("Missing STORAGE_SIGNING_SECRET for local storage");
+  }
+  return secret;
+}
+
+function signLocalPath(objectPath: string, expires: number) {
+  return createHmac("sha256", getSigningSecret())
+    .update(`${objectPath}:${expires}`)
+    .digest("hex");
+}
+
+// Resolve an object path inside the storage root, refusing traversal
+function resolveLocalPath(objectPath: string) {
+  const filePath = path.resolve(LOCAL_ROOT, objectPath);
+  if (!filePath.startsWith(LOCAL_ROOT + path.sep)) {
+    throw new Error(`Invalid object path: ${objectPath}`);
+  }
+  return filePath;
+}
+
+const localStorage: StorageAdapter = {
+  async upload(objectPath, data) {
+    const filePath = resolveLocalPath(objectPath);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data, { flag: "wx" });
+  },
+
+  async getSignedUrl(objectPath, expiresInSeconds) {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const params = new URLSearchParams({
+      path: objectPath,
+      expires: String(expires),
+      signature: signLocalPath(objectPath, expires),
+    });
+    return `/api/files?${params}`;
+  },
+};
+
+/**
+ * Read a locally stored file for a signed /api/files link.
+ * Returns null when the signature is invalid or the link has expired.
+ */
+export async function readSignedLocalFile(
+  objectPath: string,
+  expires: number,
+  signature: string
+) {
+  if (!Number.isFinite(expires) || expires < Date.now() / 1000) return null;
+
+  const expected = Buffer.from(signLocalPath(objectPath, expires));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return readFile(resolveLocalPath(objectPath));
+}
+
+export function getStorage(): StorageAdapter {
+  return process.env.STORAGE_DRIVER === "local"
+    ? localStorage
+    : supabaseStorage;
+}
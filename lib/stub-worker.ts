@@ -0,0 +1,125 @@
+import { findMedicalTest } from "@/lib/test-catalog";
+import { ChatMessage, WorkerResponse } from "@/types/chat";
+
+/**
+ * Built-in rule-based AI worker used by /api/chat when WORKER_URL is unset.
+ * Matches keywords in the latest user message to a catalog test, a doctor
+ * referral or a plain reply, so the symptom → test recommendation →
+ * diagnostic flow works offline and in automated tests.
+ */
+
+interface StubRule {
+  keywords: RegExp;
+  response: Omit<WorkerResponse, "testName">;
+}
+
+// First matching rule wins, so more specific rules go first
+const STUB_RULES: StubRule[] = [
+  {
+    keywords:
+      /\b(see|talk to|book|appointment with) (a |the )?(doctor|physician|gp)\b|\bappointment\b/i,
+    response: {
+      type: "doctor",
+      reply:
+        "I'll take you to the appointments page so you can book a visit with a doctor.",
+    },
+  },
+  {
+    keywords:
+      /\b(thirst(y)?|frequent(ly)? urinat\w*|blood sugar|glucose|diabet\w*)\b/i,
+    response: {
+      type: "test",
+      testId: "fasting_glucose_blood_test",
+      reply:
+        "Increased thirst and frequent urination can be signs of high blood sugar. I recommend a Fasting Glucose Blood Test to screen for diabetes.",
+    },
+  },
+  {
+    keywords:
+      /\b(chest pain|chest tightness|palpitations?|cholesterol|blood pressure|heart)\b/i,
+    response: {
+      type: "test",
+      testId: "cardiovascular_risk_panel",
+      reply:
+        "These symptoms may be related to your heart health. I recommend a Cardiovascular Risk Panel to check your cholesterol and heart-related biomarkers.",
+    },
+  },
+  {
+    keywords: /\b(swollen ankles|swelling|foamy urine|kidney\w*)\b/i,
+    response: {
+      type: "test",
+      testId: "kidney_function_test",
+      reply:
+        "Swelling and changes in urine can point to reduced kidney function. I recommend a Kidney Function Test.",
+    },
+  },
+  {
+    keywords: /\b(jaundice|yellow(ing)? (skin|eyes)|liver|dark urine)\b/i,
+    response: {
+      type: "test",
+      testId: "liver_enzyme_panel",
+      reply:
+        "Yellowing of the skin or eyes and dark urine can indicate a liver problem. I recommend a Liver Enzyme Panel.",
+    },
+  },
+  {
+    keywords: /\b(tremors?|shak(y|ing) hands?|stiffness|parkinson\w*)\b/i,
+    response: {
+      type: "test",
+      testId: "parkinsons_screening",
+      reply:
+        "Tremors and stiffness can be early signs of a neurological condition. I recommend a Parkinson's Screening Test.",
+    },
+  },
+];
+
+const DEFAULT_STUB_REPLY =
+  "Thanks for sharing. Could you tell me more about your symptoms — what you're feeling, where, and for how long?";
+
+// Pick the stub response for the latest user message
+export function getStubWorkerResponse(messages: ChatMessage[]): WorkerResponse {
+  const lastUserMessage = [...messages]
+    .reverse()
+    .find((message) => message.role === "user");
+  const content = lastUserMessage?.content || "";
+
+  const rule = STUB_RULES.find(({ keywords }) => keywords.test(content));
+  if (!rule) return { type: "none", reply: DEFAULT_STUB_REPLY };
+
+  const test = rule.response.testId
+    ? findMedicalTest(rule.response.testId)
+    : undefined;
+
+  return { ...rule.response, testName: test?.name };
+}
+
+/**
+ * Answer like a streaming worker would: a text/event-stream Response with
+ * the reply split into word `delta` chunks followed by the structured
+ * response, so it goes through the same relay and validation as a real
+ * worker.
+ */
+export function createStubWorkerResponse(messages: ChatMessage[]) {
+  const workerData = getStubWorkerResponse(messages);
+  const encoder = new TextEncoder();
+  const chunks = [
+    ...(workerData.reply.match(/\S+\s*/g) || []).map((delta) => ({ delta })),
+    workerData,
+  ];
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`)
+        );
+      }
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+
+  return new Response(body, {
+    headers: { "Content-Type": "text/event-stream; charset=utf-8" },
+  });
+}
@@ -0,0 +1,92 @@
+import { StructuredSymptom } from "@/types/medical";
+
+/**
+ * Helpers for the guided symptom intake.
+ * Shared by the intake UI (to turn answers into a chat message) and the
+ * server (to validate the structured symptom before it is forwarded to the
+ * AI worker or stored on a diagnostic).
+ */
+
+export const SYMPTOM_ONSETS: StructuredSymptom["onset"][] = [
+  "sudden",
+  "gradual",
+];
+
+export const COMMON_ASSOCIATED_SYMPTOMS = [
+  "Fever",
+  "Fatigue",
+  "Nausea",
+  "Dizziness",
+  "Headache",
+  "Shortness of breath",
+  "Loss of appetite",
+  "Swelling",
+];
+
+const MAX_TEXT_LENGTH = 200;
+
+// Plain-language summary of the intake, used as the user's chat message
+export function describeStructuredSymptom(symptom: StructuredSymptom) {
+  const parts = [
+    `${symptom.complaint}`,
+    `started ${symptom.onset === "sudden" ? "suddenly" : "gradually"}`,
+    `for ${symptom.duration}`,
+    `severity ${symptom.severity}/10`,
+  ];
+
+  if (symptom.location) parts.push(`located in the ${symptom.location}`);
+  if (symptom.associatedSymptoms.length > 0) {
+    parts.push(`also ${symptom.associatedSymptoms.join(", ").toLowerCase()}`);
+  }
+
+  return parts.join("; ");
+}
+
+/**
+ * Validate an untrusted structured symptom payload.
+ * Returns the cleaned symptom, or an error message describing the first
+ * invalid field.
+ */
+export function parseStructuredSymptom(
+  payload: unknown
+): { symptom: StructuredSymptom } | { error: string } {
+  if (!payload || typeof payload !== "object") {
+    return { error: "intake must be an object" };
+  }
+
+  const raw = payload as Record<string, unknown>;
+  const text = (value: unknown) =>
+    typeof value === "string" ? value.trim().slice(0, MAX_TEXT_LENGTH) : "";
+
+  const complaint = text(raw.complaint);
+  if (!complaint) return { error: "intake.complaint is required" };
+
+  if (!SYMPTOM_ONSETS.includes(raw.onset as StructuredSymptom["onset"])) {
+    return {
+      error: `intake.onset must be one of: ${SYMPTOM_ONSETS.join(", ")}`,
+    };
+  }
+
+  const duration = text(raw.duration);
+  if (!duration) return { error: "intake.duration is required" };
+
+  const severity = Number(raw.severity);
+  if (!Number.isInteger(severity) || severity < 1 || severity > 10) {
+    return { error: "intake.severity must be a whole number from 1 to 10" };
+  }
+
+  const associatedSymptoms = Array.isArray(raw.associatedSymptoms)
+    ? raw.associatedSymptoms.map(text).filter(Boolean)
+    : [];
+
+  return {
+    symptom: {
+      complaint,
+      onset: raw.onset as StructuredSymptom["onset"],
+      duration,
+      severity,
+      location: text(raw.location),
+      associatedSymptoms,
+    },
+  };
+}
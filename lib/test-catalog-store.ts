@@ -0,0 +1,251 @@
+import { createSupabaseServerClient } from "@/utils/supabase/server";
+import { APIError } from "@/lib/api-utils";
+import { parseLabAnalytes } from "@/lib/lab-schemas";
+import { getMLModel } from "@/lib/ml-models";
+import { formatPrice, MEDICAL_TESTS, MedicalTest } from "@/lib/test-catalog";
+import { FieldError } from "@/types/prediction";
+
+/**
+ * Server-side access to the test_catalog table.
+ * Reads are cached in memory for a short time so chat and diagnostics
+ * requests do not each query the catalog; admin writes clear the cache.
+ * When the table cannot be read (e.g. not migrated yet) the built-in
+ * MEDICAL_TESTS catalog is used instead.
+ */
+
+const CACHE_TTL_MS = 60 * 1000;
+
+interface TestCatalogRow {
+  id: string;
+  name: string;
+  description: string;
+  price_cents: number;
+  turnaround: string;
+  category: string;
+  ml_model: string | null;
+  result_schema: MedicalTest["resultSchema"];
+  active: boolean;
+}
+
+let cache: { tests: MedicalTest[]; loadedAt: number } | null = null;
+
+function toMedicalTest(row: TestCatalogRow): MedicalTest {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    price: formatPrice(row.price_cents),
+    priceCents: row.price_cents,
+    duration: row.turnaround,
+    category: row.category,
+    mlModel: row.ml_model,
+    resultSchema: row.result_schema,
+    active: row.active,
+  };
+}
+
+// Every catalog test, including inactive ones
+async function loadCatalog() {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) return cache.tests;
+
+  try {
+    const supabase = createSupabaseServerClient();
+    const { data, error } = await supabase
+      .from("test_catalog")
+      .select("*")
+      .order("sort_order", { ascending: true })
+      .order("name", { ascending: true });
+
+    if (error) throw new Error(error.message);
+
+    cache = {
+      tests: (data as TestCatalogRow[]).map(toMedicalTest),
+      loadedAt: Date.now(),
+    };
+    return cache.tests;
+  } catch (error) {
+    console.warn(
+      "⚠️ Using built-in test catalog:",
+      error instanceof Error ? error.message : error
+    );
+    return MEDICAL_TESTS;
+  }
+}
+
+export function invalidateTestCatalog() {
+  cache = null;
+}
+
+// Tests patients can book and the AI worker can recommend
+export async function getTestCatalog({ includeInactive = false } = {}) {
+  const tests = await loadCatalog();
+  return includeInactive ? tests : tests.filter((test) => test.active);
+}
+
+// A catalog test by id, active or not: existing tests rows keep working
+// after their test is retired
+export async function getCatalogTest(testId: string) {
+  return (await loadCatalog()).find((test) => test.id === testId);
+}
+
+/**
+ * Validate an admin create (partial = false) or update (partial = true)
+ * payload. Returns the test_catalog columns to write, or field errors.
+ */
+export function parseCatalogTestInput(
+  payload: unknown,
+  { partial }: { partial: boolean }
+): { row: Partial<TestCatalogRow> } | { fieldErrors: FieldError[] } {
+  const raw = (payload || {}) as Record<string, unknown>;
+  const row: Partial<TestCatalogRow> = {};
+  const fieldErrors: FieldError[] = [];
+  const has = (field: string) => raw[field] !== undefined;
+  const text = (value: unknown) =>
+    typeof value === "string" ? value.trim() : "";
+
+  if (!partial) {
+    const id = text(raw.id);
+    if (!/^[a-z][a-z0-9_]{2,63}$/.test(id)) {
+      fieldErrors.push({
+        field: "id",
+        message: "id must be 3-64 lowercase letters, digits or underscores",
+      });
+    }
+    row.id = id;
+  }
+
+  const textFields = [
+    ["name", "name"],
+    ["description", "description"],
+    ["duration", "turnaround"],
+    ["category", "category"],
+  ] as const;
+
+  for (const [field, column] of textFields) {
+    if (!partial || has(field)) {
+      const value = text(raw[field]);
+      if (!value) {
+        fieldErrors.push({ field, message: `${field} is required` });
+      }
+      row[column] = value;
+    }
+  }
+
+  if (!partial || has("priceCents")) {
+    const priceCents = Number(raw.priceCents);
+    if (!Number.isInteger(priceCents) || priceCents < 0) {
+      fieldErrors.push({
+        field: "priceCents",
+        message: "priceCents must be a whole number of cents, 0 or more",
+      });
+    }
+    row.price_cents = priceCents;
+  }
+
+  if (has("mlModel")) {
+    const mlModel = raw.mlModel === null ? null : text(raw.mlModel) || null;
+    if (mlModel && !getMLModel(mlModel)) {
+      fieldErrors.push({
+        field: "mlModel",
+        message: `Unknown ML model: ${mlModel}`,
+      });
+    }
+    row.ml_model = mlModel;
+  }
+
+  if (has("resultSchema")) {
+    if (raw.resultSchema === null) {
+      row.result_schema = null;
+    } else {
+      const parsed = parseLabAnalytes(raw.resultSchema);
+      if ("error" in parsed) {
+        fieldErrors.push({ field: "resultSchema", message: parsed.error });
+      } else {
+        row.result_schema = parsed.analytes;
+      }
+    }
+  }
+
+  if (row.ml_model && row.result_schema) {
+    fieldErrors.push({
+      field: "resultSchema",
+      message:
+        "A test is scored by an ML model or has a result schema, not both",
+    });
+  }
+
+  if (has("active")) {
+    if (typeof raw.active !== "boolean") {
+      fieldErrors.push({
+        field: "active",
+        message: "active must be true or false",
+      });
+    }
+    row.active = raw.active === true;
+  }
+
+  return fieldErrors.length > 0 ? { fieldErrors } : { row };
+}
+
+export async function createCatalogTest(row: Partial<TestCatalogRow>) {
+  const supabase = createSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("test_catalog")
+    .insert({ active: true, ...row })
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new APIError(
+        `A test with id ${row.id} already exists`,
+        409,
+        "TEST_EXISTS"
+      );
+    }
+    throw new Error(`Failed to create test: ${error.message}`);
+  }
+
+  invalidateTestCatalog();
+  return toMedicalTest(data as TestCatalogRow);
+}
+
+// Returns null when the test does not exist
+export async function updateCatalogTest(
+  testId: string,
+  row: Partial<TestCatalogRow>
+) {
+  const supabase = createSupabaseServerClient();
+
+  // A partial update must not leave a test with both result types
+  if (row.ml_model || row.result_schema) {
+    const current = await getCatalogTest(testId);
+    const mlModel =
+      row.ml_model !== undefined ? row.ml_model : current?.mlModel;
+    const resultSchema =
+      row.result_schema !== undefined
+        ? row.result_schema
+        : current?.resultSchema;
+    if (mlModel && resultSchema?.length) {
+      throw new APIError(
+        "A test is scored by an ML model or has a result schema, not both",
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("test_catalog")
+    .update({ ...row, updated_at: new Date().toISOString() })
+    .eq("id", testId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update test: ${error.message}`);
+  }
+
+  invalidateTestCatalog();
+  return data ? toMedicalTest(data as TestCatalogRow) : null;
+}
@@ -0,0 +1,122 @@
+import { getLabSchema, LabAnalyte, LabResultSchema } from "@/lib/lab-schemas";
+
+/**
+ * Catalog of medical tests CuraNova offers.
+ * Shared by the scheduling dialog (what patients can pick) and the server
+ * (what the AI worker is allowed to recommend and what tests rows can be
+ * created for).
+ *
+ * The live catalog is the test_catalog table, managed by admins through
+ * /api/test-catalog (see lib/test-catalog-store.ts). MEDICAL_TESTS seeds
+ * that table and is the fallback when it cannot be read.
+ */
+
+export interface MedicalTest {
+  id: string;
+  name: string;
+  description: string;
+  price: string; // Display price, e.g. "$25"
+  priceCents: number;
+  duration: string; // Turnaround, e.g. "1–2 days"
+  category: string;
+  mlModel: string | null; // Registry model that scores the test (lib/ml-models.ts)
+  resultSchema: LabAnalyte[] | null; // Lab values entered for the test
+  active: boolean; // Inactive tests cannot be booked or recommended
+}
+
+// Format a price in cents for display, e.g. 2500 -> "$25", 2550 -> "$25.50"
+export function formatPrice(priceCents: number) {
+  const dollars = priceCents / 100;
+  return `$${Number.isInteger(dollars) ? dollars : dollars.toFixed(2)}`;
+}
+
+export const MEDICAL_TESTS: MedicalTest[] = [
+  {
+    id: "fasting_glucose_blood_test",
+    name: "Fasting Glucose Blood Test",
+    description:
+      "Measures blood sugar levels after fasting to screen for diabetes or prediabetes.",
+    price: "$25",
+    priceCents: 2500,
+    duration: "Same day",
+    category: "blood",
+    mlModel: "diabetes",
+    resultSchema: null,
+    active: true,
+  },
+  {
+    id: "cardiovascular_risk_panel",
+    name: "Cardiovascular Risk Panel",
+    description:
+      "Evaluates cholesterol, blood pressure, and heart-related biomarkers to assess risk of heart disease.",
+    price: "$100",
+    priceCents: 10000,
+    duration: "1–2 days",
+    category: "cardiology",
+    mlModel: "heart",
+    resultSchema: null,
+    active: true,
+  },
+  {
+    id: "kidney_function_test",
+    name: "Kidney Function Test",
+    description:
+      "Analyzes blood urea nitrogen and creatinine levels to detect kidney dysfunction or disease.",
+    price: "$45",
+    priceCents: 4500,
+    duration: "1 day",
+    category: "blood",
+    mlModel: null,
+    resultSchema: getLabSchema("kidney_function_test")?.analytes || null,
+    active: true,
+  },
+  {
+    id: "liver_enzyme_panel",
+    name: "Liver Enzyme Panel",
+    description:
+      "Checks enzyme levels (ALT, AST, ALP, bilirubin) to evaluate liver function or potential liver disease.",
+    price: "$55",
+    priceCents: 5500,
+    duration: "1 day",
+    category: "blood",
+    mlModel: null,
+    resultSchema: getLabSchema("liver_enzyme_panel")?.analytes || null,
+    active: true,
+  },
+  {
+    id: "parkinsons_screening",
+    name: "Parkinson’s Screening Test",
+    description:
+      "Analyzes neurological and voice metrics (jitter, shimmer, pitch) for early signs of Parkinson’s disease.",
+    price: "$120",
+    priceCents: 12000,
+    duration: "2–3 days",
+    category: "neurology",
+    mlModel: null,
+    resultSchema: getLabSchema("parkinsons_screening")?.analytes || null,
+    active: true,
+  },
+];
+
+// Look up a test by its catalog id
+export function findMedicalTest(testId: string, catalog = MEDICAL_TESTS) {
+  return catalog.find((test) => test.id === testId);
+}
+
+// Look up a test by display name, ignoring case and apostrophe style
+export function findMedicalTestByName(
+  testName: string,
+  catalog = MEDICAL_TESTS
+) {
+  const normalize = (name: string) =>
+    name.toLowerCase().replace(/[’']/g, "").replace(/\s+/g, " ").trim();
+
+  return catalog.find((test) => normalize(test.name) === normalize(testName));
+}
+
+// The lab value schema for a catalog test, if results are entered as values
+export function getTestLabSchema(test: MedicalTest): LabResultSchema | null {
+  return test.resultSchema?.length
+    ? { testId: test.id, analytes: test.resultSchema }
+    : null;
+}
@@ -0,0 +1,152 @@
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { ChatMessage, EmergencyResponse, TriageCategory } from "@/types/chat";
+
+/**
+ * Server-side emergency triage for /api/chat.
+ * Runs before the AI worker: when the recent user messages describe a
+ * red-flag emergency, the worker is skipped and the patient gets
+ * escalation instructions instead of a test recommendation. Symptoms are
+ * read across the last TRIAGE_WINDOW user turns, so "chest pain" in one
+ * message and "can't breathe" in the next still escalate.
+ *
+ * Rules err on the side of escalating; a false positive costs the patient
+ * one extra instruction, a false negative could cost far more.
+ */
+
+interface TriageRule {
+  category: TriageCategory;
+  // Every group must match somewhere in the message
+  allOf: RegExp[];
+  reply: string;
+}
+
+// User turns read together, the latest included
+const TRIAGE_WINDOW = 3;
+
+const CALL_EMERGENCY =
+  "Call 911 (or your local emergency number) now, or have someone take you to the nearest emergency room. Do not wait for a test or an appointment.";
+
+const TRIAGE_RULES: TriageRule[] = [
+  {
+    category: "suicidal_ideation",
+    allOf: [
+      // Hurting oneself only counts with intent ("want to hurt myself"),
+      // not as an accident report ("I hurt myself lifting")
+      /\b(suicid\w*|kill(ing)? myself|end(ing)? (my|it all|my own) life|take my (own )?life|want to die|better off dead|(want|wanted|going|planning|plan|urge|need) to hurt myself|(thinking (about|of)|thoughts of) hurting myself|self[- ]harm\w*)\b/i,
+    ],
+    reply:
+      "I'm really sorry you're feeling this way, and you don't have to go through it alone. Please call or text 988 (Suicide & Crisis Lifeline) now to talk to someone, or call 911 if you are in immediate danger.",
+  },
+  {
+    category: "cardiac",
+    allOf: [
+      /\b(chest (pain|pressure|tightness|hurts?)|pain in (my )?chest|crushing (pain|pressure))\b/i,
+      /\b(short(ness)? of breath|can'?t breathe|trouble breathing|difficulty breathing|breathless|sweat(ing|y)|pain (in|down|spreading to) (my )?(left )?(arm|jaw)|nause\w*|faint\w*)\b/i,
+    ],
+    reply: `Chest pain together with these symptoms can be a sign of a heart attack. ${CALL_EMERGENCY} If you are not allergic, chew an aspirin while you wait.`,
+  },
+  {
+    category: "stroke",
+    allOf: [
+      /\b(face (is )?(droop\w*|numb)|droop\w* face|slurr?(ed|ing) (speech|words)|can'?t (speak|talk)|trouble speaking|(sudden )?(weakness|numbness) (in|on) (one|my left|my right) (side|arm|leg)|one side of my (face|body)|sudden (confusion|vision loss|severe headache)|worst headache of my life)\b/i,
+    ],
+    reply: `These can be signs of a stroke, where every minute counts. ${CALL_EMERGENCY} Note the time the symptoms started.`,
+  },
+  {
+    category: "anaphylaxis",
+    allOf: [
+      /\b(throat (is )?(swelling|closing|tight)|swollen (tongue|throat|lips)|tongue (is )?swelling|hives)\b/i,
+      /\b(breath\w*|allerg\w*|stung|sting|ate|peanut|swallow\w*)\b/i,
+    ],
+    reply: `This may be a severe allergic reaction (anaphylaxis). Use an epinephrine auto-injector if you have one. ${CALL_EMERGENCY}`,
+  },
+  {
+    category: "breathing",
+    allOf: [
+      /\b(can'?t breathe|cannot breathe|unable to breathe|gasping for (air|breath)|choking|lips (are |turning )?blue)\b/i,
+    ],
+    reply: `Severe difficulty breathing is a medical emergency. ${CALL_EMERGENCY}`,
+  },
+  {
+    category: "severe_bleeding",
+    allOf: [
+      /\b(bleeding (heavily|badly|a lot|won'?t stop|that won'?t stop)|can'?t stop (the )?bleeding|coughing (up )?blood|vomiting blood|blood everywhere)\b/i,
+    ],
+    reply: `Heavy or uncontrolled bleeding needs emergency care. Apply firm pressure to the wound. ${CALL_EMERGENCY}`,
+  },
+  {
+    category: "loss_of_consciousness",
+    allOf: [
+      /\b(passed out|unconscious|unresponsive|won'?t wake up|having a seizure|seizing|convuls\w*)\b/i,
+    ],
+    reply: `Loss of consciousness or a seizure needs emergency care. ${CALL_EMERGENCY}`,
+  },
+  {
+    category: "overdose",
+    allOf: [
+      /\b(overdos\w*|took too many (pills|tablets)|swallowed (a bottle|too many)|poison(ed|ing))\b/i,
+    ],
+    reply: `This may be an overdose or poisoning. ${CALL_EMERGENCY} You can also call Poison Control at 1-800-222-1222.`,
+  },
+];
+
+/**
+ * Check the recent user turns of a conversation for red-flag symptoms.
+ * A rule fires when its patterns all match across the window and the latest
+ * user message matches at least one of them, so an emergency that was
+ * already answered isn't repeated on every following turn.
+ * Returns null when the last message is not from the user.
+ */
+export function triageConversation(
+  messages: ChatMessage[]
+): EmergencyResponse | null {
+  const latest = messages[messages.length - 1];
+  if (latest?.role !== "user") return null;
+
+  const recent = messages
+    .filter(({ role }) => role === "user")
+    .slice(-TRIAGE_WINDOW)
+    .map(({ content }) => content)
+    .join("\n");
+
+  const rule = TRIAGE_RULES.find(
+    ({ allOf }) =>
+      allOf.every((pattern) => pattern.test(recent)) &&
+      allOf.some((pattern) => pattern.test(latest.content))
+  );
+
+  if (!rule) return null;
+
+  return {
+    type: "emergency",
+    triageCategory: rule.category,
+    reply: rule.reply,
+  };
+}
+
+// Record a triage escalation for clinical review. triage_events has RLS with
+// no policies, so only the service role can write it.
+export async function logTriageEvent({
+  userId,
+  conversationId,
+  category,
+  message,
+}: {
+  userId?: string;
+  conversationId?: string;
+  category: TriageCategory;
+  message: string;
+}) {
+  const supabase = createSupabaseAdmin();
+
+  const { error } = await supabase.from("triage_events").insert({
+    user_id: userId || null,
+    conversation_id: conversationId || null,
+    category,
+    message,
+  });
+
+  if (error) {
+    throw new Error(`Failed to log triage event: ${error.message}`);
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  findMedicalTest,
+  findMedicalTestByName,
+  MedicalTest,
+} from "@/lib/test-catalog";
+import {
+  ChatErrorCode,
+  WORKER_RESPONSE_TYPES,
+  WorkerResponse,
+  WorkerResponseType,
+} from "@/types/chat";
+
+/**
+ * Contract for AI worker responses:
+ * - type: one of WORKER_RESPONSE_TYPES (case and whitespace are repaired)
+ * - reply: non-empty string
+ * - testId: required for type "test" and must be an active catalog test
+ *   (the catalog passed in, normally getTestCatalog()).
+ *   An unknown testId is repaired from testName when the name matches a
+ *   catalog test; testName is always rewritten to the catalog name.
+ * - testId/testName are dropped for any other type
+ */
+export type WorkerValidationResult =
+  | { ok: true; value: WorkerResponse; repairs: string[] }
+  | { ok: false; code: ChatErrorCode; error: string };
+
+function invalid(code: ChatErrorCode, error: string): WorkerValidationResult {
+  return { ok: false, code, error };
+}
+
+// Normalize "Kidney-Function Test" style ids to catalog snake_case
+function normalizeTestId(testId: string) {
+  return testId
+    .trim()
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .replace(/[\s-]+/g, "_");
+}
+
+export function validateWorkerResponse(
+  payload: unknown,
+  catalog: MedicalTest[]
+): WorkerValidationResult {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return invalid(
+      "WORKER_INVALID_RESPONSE",
+      "Worker response must be a JSON object"
+    );
+  }
+
+  const raw = payload as Record<string, unknown>;
+  const repairs: string[] = [];
+
+  // type
+  const type =
+    typeof raw.type === "string" ? raw.type.trim().toLowerCase() : raw.type;
+  if (!WORKER_RESPONSE_TYPES.includes(type as WorkerResponseType)) {
+    return invalid(
+      "WORKER_INVALID_TYPE",
+      `Worker response type must be one of: ${WORKER_RESPONSE_TYPES.join(", ")}`
+    );
+  }
+  if (type !== raw.type) repairs.push(`normalized type "${raw.type}"`);
+
+  // reply
+  const reply = typeof raw.reply === "string" ? raw.reply.trim() : "";
+  if (!reply) {
+    return invalid("WORKER_EMPTY_REPLY", "Worker reply must not be empty");
+  }
+
+  if (type !== "test") {
+    if (raw.testId !== undefined || raw.testName !== undefined) {
+      repairs.push(`dropped test fields for type "${type}"`);
+    }
+    return {
+      ok: true,
+      value: { type: type as WorkerResponseType, reply },
+      repairs,
+    };
+  }
+
+  // testId must resolve to a catalog test
+  const rawTestId = typeof raw.testId === "string" ? raw.testId : "";
+  const rawTestName = typeof raw.testName === "string" ? raw.testName : "";
+
+  let test = rawTestId
+    ? findMedicalTest(normalizeTestId(rawTestId), catalog)
+    : null;
+  if (test && test.id !== rawTestId) {
+    repairs.push(`normalized testId "${rawTestId}"`);
+  }
+
+  if (!test && rawTestName) {
+    test = findMedicalTestByName(rawTestName, catalog);
+    if (test) {
+      repairs.push(`resolved testId from testName "${rawTestName}"`);
+    }
+  }
+
+  if (!test) {
+    return invalid(
+      "WORKER_UNKNOWN_TEST",
+      `Worker recommended a test that is not in the catalog: ${
+        rawTestId || rawTestName || "(none)"
+      }`
+    );
+  }
+
+  return {
+    ok: true,
+    value: { type: "test", testId: test.id, testName: test.name, reply },
+    repairs,
+  };
+}
@@ -7,6 +7,7 @@ const isProtectedRoute = createRouteMatcher([
   "/appointments(.*)",
   "/diagnostics(.*)",
   "/doctor(.*)",
+  "/admin(.*)",
 ]);
 
 // Define public routes
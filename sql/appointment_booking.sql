@@ -0,0 +1,74 @@
+-- Capacity-aware appointment booking (bookAppointmentSlot in lib/availability.ts)
+-- Run after availability.sql
+
+-- Patients that can book the same slot (e.g., several phlebotomy chairs)
+ALTER TABLE availability_templates
+ADD COLUMN IF NOT EXISTS capacity INTEGER NOT NULL DEFAULT 1 CHECK (capacity > 0);
+
+-- Slot end, used to detect a patient's overlapping appointments. Rows booked
+-- before this column existed are treated as 30 minutes long
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS appointment_end TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_user_date
+ON appointments(user_id, appointment_date);
+
+-- Book a slot atomically. Advisory locks serialize concurrent bookings by the
+-- same patient and for the same slot, so the checks below cannot race.
+-- Raises SLOT_FULL when the slot's capacity is taken and PATIENT_OVERLAP
+-- when the patient already holds an appointment that overlaps the slot
+CREATE OR REPLACE FUNCTION book_appointment_slot(
+    p_user_id TEXT,
+    p_diagnostic_id UUID,
+    p_provider_id TEXT,
+    p_location TEXT,
+    p_slot_start TIMESTAMPTZ,
+    p_slot_end TIMESTAMPTZ,
+    p_time_label TEXT,
+    p_capacity INTEGER
+) RETURNS appointments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    booked_count INTEGER;
+    appointment appointments;
+BEGIN
+    -- Always lock the patient before the slot to avoid deadlocks
+    PERFORM pg_advisory_xact_lock(hashtext('appointment_user:' || p_user_id));
+    PERFORM pg_advisory_xact_lock(
+        hashtext('appointment_slot:' || p_provider_id || '|' || p_slot_start::TEXT)
+    );
+
+    IF EXISTS (
+        SELECT 1 FROM appointments
+        WHERE user_id = p_user_id
+          AND status <> 'cancelled'
+          AND appointment_date < p_slot_end
+          AND COALESCE(appointment_end, appointment_date + INTERVAL '30 minutes')
+              > p_slot_start
+    ) THEN
+        RAISE EXCEPTION 'PATIENT_OVERLAP' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT COUNT(*) INTO booked_count
+    FROM appointments
+    WHERE provider_id = p_provider_id
+      AND appointment_date = p_slot_start
+      AND status <> 'cancelled';
+
+    IF booked_count >= p_capacity THEN
+        RAISE EXCEPTION 'SLOT_FULL' USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO appointments (
+        user_id, diagnostic_id, appointment_date, appointment_end,
+        appointment_time, provider_id, location, status
+    ) VALUES (
+        p_user_id, p_diagnostic_id, p_slot_start, p_slot_end,
+        p_time_label, p_provider_id, p_location, 'scheduled'
+    )
+    RETURNING * INTO appointment;
+
+    RETURN appointment;
+END;
+$$;
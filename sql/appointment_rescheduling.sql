@@ -0,0 +1,124 @@
+-- Patient self-service rescheduling (rescheduleAppointment in lib/availability.ts)
+-- Run after appointment_booking.sql
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS reschedule_count INTEGER NOT NULL DEFAULT 0;
+
+-- One row per move, keeping the time the appointment had before it
+CREATE TABLE IF NOT EXISTS appointment_reschedules (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(clerk_user_id) ON DELETE CASCADE,
+    previous_date TIMESTAMPTZ,
+    previous_end TIMESTAMPTZ,
+    previous_time TEXT,
+    previous_provider_id TEXT,
+    previous_location TEXT,
+    new_date TIMESTAMPTZ NOT NULL,
+    new_time TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reschedules_appointment
+ON appointment_reschedules(appointment_id, created_at DESC);
+
+-- Move a patient's appointment to another slot atomically. Takes the same
+-- locks as book_appointment_slot, checks the reschedule policy against the
+-- existing appointment, then the new slot's capacity and the patient's other
+-- appointments. Raises:
+-- - APPOINTMENT_NOT_FOUND: no such appointment for this patient
+-- - APPOINTMENT_NOT_RESCHEDULABLE: cancelled or completed
+-- - RESCHEDULE_TOO_LATE: the appointment starts within p_min_notice_hours
+-- - RESCHEDULE_LIMIT_REACHED: already moved p_max_reschedules times
+-- - PATIENT_OVERLAP, SLOT_FULL: as for book_appointment_slot
+CREATE OR REPLACE FUNCTION reschedule_appointment(
+    p_appointment_id UUID,
+    p_user_id TEXT,
+    p_provider_id TEXT,
+    p_location TEXT,
+    p_slot_start TIMESTAMPTZ,
+    p_slot_end TIMESTAMPTZ,
+    p_time_label TEXT,
+    p_capacity INTEGER,
+    p_min_notice_hours INTEGER,
+    p_max_reschedules INTEGER
+) RETURNS appointments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    existing appointments;
+    booked_count INTEGER;
+    appointment appointments;
+BEGIN
+    -- Same lock order as book_appointment_slot: patient, then slot
+    PERFORM pg_advisory_xact_lock(hashtext('appointment_user:' || p_user_id));
+    PERFORM pg_advisory_xact_lock(
+        hashtext('appointment_slot:' || p_provider_id || '|' || p_slot_start::TEXT)
+    );
+
+    SELECT * INTO existing
+    FROM appointments
+    WHERE id = p_appointment_id AND user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'APPOINTMENT_NOT_FOUND' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF existing.status NOT IN ('scheduled', 'confirmed') THEN
+        RAISE EXCEPTION 'APPOINTMENT_NOT_RESCHEDULABLE' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF existing.appointment_date < NOW() + make_interval(hours => p_min_notice_hours) THEN
+        RAISE EXCEPTION 'RESCHEDULE_TOO_LATE' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF existing.reschedule_count >= p_max_reschedules THEN
+        RAISE EXCEPTION 'RESCHEDULE_LIMIT_REACHED' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM appointments
+        WHERE user_id = p_user_id
+          AND id <> p_appointment_id
+          AND status <> 'cancelled'
+          AND appointment_date < p_slot_end
+          AND COALESCE(appointment_end, appointment_date + INTERVAL '30 minutes')
+              > p_slot_start
+    ) THEN
+        RAISE EXCEPTION 'PATIENT_OVERLAP' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT COUNT(*) INTO booked_count
+    FROM appointments
+    WHERE provider_id = p_provider_id
+      AND appointment_date = p_slot_start
+      AND id <> p_appointment_id
+      AND status <> 'cancelled';
+
+    IF booked_count >= p_capacity THEN
+        RAISE EXCEPTION 'SLOT_FULL' USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO appointment_reschedules (
+        appointment_id, user_id, previous_date, previous_end, previous_time,
+        previous_provider_id, previous_location, new_date, new_time
+    ) VALUES (
+        existing.id, p_user_id, existing.appointment_date, existing.appointment_end,
+        existing.appointment_time, existing.provider_id, existing.location,
+        p_slot_start, p_time_label
+    );
+
+    UPDATE appointments
+    SET appointment_date = p_slot_start,
+        appointment_end = p_slot_end,
+        appointment_time = p_time_label,
+        provider_id = p_provider_id,
+        location = p_location,
+        reschedule_count = existing.reschedule_count + 1
+    WHERE id = p_appointment_id
+    RETURNING * INTO appointment;
+
+    RETURN appointment;
+END;
+$$;
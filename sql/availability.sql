@@ -0,0 +1,58 @@
+-- Appointment availability (lib/availability.ts)
+-- Weekly working hours per provider, location and weekday. Times are local
+-- to the template's time zone; breaks are [{ "start": "HH:MM", "end": "HH:MM" }]
+CREATE TABLE IF NOT EXISTS availability_templates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    provider_id TEXT NOT NULL,
+    provider_name TEXT NOT NULL,
+    location TEXT NOT NULL,
+    timezone TEXT NOT NULL DEFAULT 'America/New_York',
+    weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    slot_minutes INTEGER NOT NULL DEFAULT 30 CHECK (slot_minutes > 0),
+    breaks JSONB NOT NULL DEFAULT '[]'::jsonb,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (start_time < end_time),
+    UNIQUE (provider_id, location, weekday)
+);
+
+-- Holidays and other closed days. A NULL provider_id closes the location
+CREATE TABLE IF NOT EXISTS availability_closures (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    provider_id TEXT,
+    location TEXT NOT NULL,
+    date DATE NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_closures_date
+ON availability_closures(date);
+
+-- Appointments record the slot's provider and location; appointment_date
+-- is the slot start
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS provider_id TEXT,
+ADD COLUMN IF NOT EXISTS location TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_provider_date
+ON appointments(provider_id, appointment_date);
+
+-- Built-in hours (DEFAULT_AVAILABILITY): weekdays 8-5 with a lunch break,
+-- Saturday mornings
+INSERT INTO availability_templates (
+    provider_id, provider_name, location, weekday, start_time, end_time,
+    slot_minutes, breaks
+)
+SELECT
+    'curanova_diagnostics', 'CuraNova Diagnostics', 'Tampa General Hospital',
+    weekday, '08:00', '17:00', 30,
+    '[{ "start": "12:00", "end": "13:00" }]'::jsonb
+FROM generate_series(1, 5) AS weekday
+UNION ALL
+SELECT
+    'curanova_diagnostics', 'CuraNova Diagnostics', 'Tampa General Hospital',
+    6, '09:00', '12:00', 30, '[]'::jsonb
+ON CONFLICT (provider_id, location, weekday) DO NOTHING;
@@ -0,0 +1,21 @@
+-- Chat conversations group a patient's chat_messages into sessions
+CREATE TABLE IF NOT EXISTS chat_conversations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(clerk_user_id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Link messages to a conversation and keep worker metadata (type, testId, ...)
+ALTER TABLE chat_messages
+ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES chat_conversations(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_user_id ON chat_conversations(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation_id ON chat_messages(conversation_id, created_at);
+
+ALTER TABLE chat_conversations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only access their own chat conversations"
+ON chat_conversations FOR ALL USING (user_id = auth.uid());
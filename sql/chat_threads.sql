@@ -0,0 +1,11 @@
+-- Named, archivable conversation threads
+ALTER TABLE chat_conversations
+ADD COLUMN IF NOT EXISTS title TEXT NOT NULL DEFAULT 'New conversation',
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+-- Link diagnostics to the conversation thread that spawned them
+ALTER TABLE diagnostics
+ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES chat_conversations(id) ON DELETE SET NULL;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_diagnostics_conversation_id ON diagnostics(conversation_id);
@@ -0,0 +1,11 @@
+-- Uploaded lab result files (PDF/PNG/JPEG)
+-- result_file holds the storage object path, e.g. tests/<id>/<timestamp>.pdf;
+-- downloads go through short-lived signed links
+ALTER TABLE tests
+ADD COLUMN IF NOT EXISTS result_file_name TEXT,
+ADD COLUMN IF NOT EXISTS result_file_type TEXT;
+
+-- Private bucket for STORAGE_DRIVER=supabase (default name: lab-results)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('lab-results', 'lab-results', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,6 @@
+-- Structured lab values for tests entered by hand (kidney, liver,
+-- Parkinson's); see LabResult in types/lab.ts
+-- lab_values: { testId, values: [{ analyte, label, value, unit,
+--   referenceLow, referenceHigh, flag }], recordedAt }
+ALTER TABLE tests
+ADD COLUMN IF NOT EXISTS lab_values JSONB;
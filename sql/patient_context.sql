@@ -0,0 +1,8 @@
+-- Patient context shared with the AI worker
+ALTER TABLE user_medical_info
+ADD COLUMN IF NOT EXISTS date_of_birth DATE;
+
+-- Per-user consent to attach medical history to chat requests (opt-in)
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS share_history_with_ai BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS share_history_updated_at TIMESTAMPTZ;
@@ -0,0 +1,8 @@
+-- Risk trends: look up a patient's completed predictions in date order
+-- (tests joined to diagnostics by user_id, filtered by result->>'model')
+CREATE INDEX IF NOT EXISTS idx_diagnostics_user_id
+ON diagnostics (user_id);
+
+CREATE INDEX IF NOT EXISTS idx_tests_diagnostic_completed_at
+ON tests (diagnostic_id, completed_at DESC)
+WHERE result IS NOT NULL;
@@ -0,0 +1,20 @@
+-- Compare prediction outcomes across model versions
+-- Look up predictions by model and version (tests.result, see test_results.sql)
+CREATE INDEX IF NOT EXISTS idx_tests_result_model_version
+ON tests ((result->>'model'), (result->>'modelVersion'))
+WHERE result IS NOT NULL;
+
+-- One row per model version and source (ml or fallback)
+CREATE OR REPLACE VIEW prediction_outcomes_by_version AS
+SELECT
+  result->>'model' AS model,
+  result->>'modelVersion' AS model_version,
+  COALESCE(result->>'source', 'ml') AS source,
+  COUNT(*) AS predictions,
+  AVG((result->>'prediction')::NUMERIC) AS positive_rate,
+  AVG((result->>'probability')::NUMERIC) AS mean_probability,
+  MIN(completed_at) AS first_prediction_at,
+  MAX(completed_at) AS last_prediction_at
+FROM tests
+WHERE result IS NOT NULL
+GROUP BY 1, 2, 3;
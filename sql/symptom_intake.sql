@@ -0,0 +1,4 @@
+-- Structured symptom answers from the guided chat intake
+-- (complaint, onset, duration, severity, location, associatedSymptoms)
+ALTER TABLE diagnostics
+ADD COLUMN IF NOT EXISTS symptom_details JSONB;
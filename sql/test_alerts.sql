@@ -0,0 +1,25 @@
+-- Alerts raised when a stored prediction or lab result breaks an alert rule
+-- (lib/alerts.ts). Open until a clinician acknowledges them on /doctor.
+CREATE TABLE IF NOT EXISTS test_alerts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(clerk_user_id) ON DELETE CASCADE,
+    diagnostic_id UUID NOT NULL REFERENCES diagnostics(id) ON DELETE CASCADE,
+    test_id UUID NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+    test_name TEXT NOT NULL,
+    rule TEXT NOT NULL,
+    severity TEXT NOT NULL CHECK (severity IN ('warning', 'critical')),
+    message TEXT NOT NULL,
+    details JSONB DEFAULT '{}'::jsonb,
+    patient_notified_at TIMESTAMPTZ,
+    acknowledged_at TIMESTAMPTZ,
+    acknowledged_by TEXT, -- Clerk user id of the clinician
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Open alerts for the doctor dashboard
+CREATE INDEX IF NOT EXISTS idx_test_alerts_open
+ON test_alerts(created_at DESC)
+WHERE acknowledged_at IS NULL;
+
+-- Open alerts per test, checked before raising a rule again
+CREATE INDEX IF NOT EXISTS idx_test_alerts_test_id ON test_alerts(test_id);
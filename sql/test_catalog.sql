@@ -0,0 +1,205 @@
+-- Medical test catalog, managed by admins through /api/test-catalog.
+-- Seeded with the built-in catalog (MEDICAL_TESTS in lib/test-catalog.ts).
+-- A test is either scored by an ML model (ml_model, see lib/ml-models.ts)
+-- or entered as lab values (result_schema, see lib/lab-schemas.ts).
+CREATE TABLE IF NOT EXISTS test_catalog (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    price_cents INTEGER NOT NULL CHECK (price_cents >= 0),
+    turnaround TEXT NOT NULL,
+    category TEXT NOT NULL,
+    ml_model TEXT,
+    result_schema JSONB,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    sort_order INTEGER NOT NULL DEFAULT 100,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (ml_model IS NULL OR result_schema IS NULL)
+);
+
+INSERT INTO test_catalog (
+    id, name, description, price_cents, turnaround, category, ml_model,
+    result_schema, sort_order
+)
+VALUES
+(
+  'fasting_glucose_blood_test',
+  'Fasting Glucose Blood Test',
+  'Measures blood sugar levels after fasting to screen for diabetes or prediabetes.',
+  2500,
+  'Same day',
+  'blood',
+  'diabetes',
+  NULL,
+  1
+),
+(
+  'cardiovascular_risk_panel',
+  'Cardiovascular Risk Panel',
+  'Evaluates cholesterol, blood pressure, and heart-related biomarkers to assess risk of heart disease.',
+  10000,
+  '1–2 days',
+  'cardiology',
+  'heart',
+  NULL,
+  2
+),
+(
+  'kidney_function_test',
+  'Kidney Function Test',
+  'Analyzes blood urea nitrogen and creatinine levels to detect kidney dysfunction or disease.',
+  4500,
+  '1 day',
+  'blood',
+  NULL,
+  '[
+  {
+    "name": "bun",
+    "label": "Blood Urea Nitrogen (BUN)",
+    "unit": "mg/dL",
+    "referenceLow": 7,
+    "referenceHigh": 20,
+    "min": 1,
+    "max": 200
+  },
+  {
+    "name": "creatinine",
+    "label": "Creatinine",
+    "unit": "mg/dL",
+    "referenceLow": 0.6,
+    "referenceHigh": 1.3,
+    "min": 0.1,
+    "max": 25,
+    "step": 0.01
+  },
+  {
+    "name": "egfr",
+    "label": "eGFR",
+    "unit": "mL/min/1.73m²",
+    "referenceLow": 90,
+    "min": 1,
+    "max": 200
+  },
+  {
+    "name": "uacr",
+    "label": "Urine Albumin-to-Creatinine Ratio",
+    "unit": "mg/g",
+    "referenceHigh": 30,
+    "min": 0,
+    "max": 5000,
+    "optional": true
+  }
+]'::jsonb,
+  3
+),
+(
+  'liver_enzyme_panel',
+  'Liver Enzyme Panel',
+  'Checks enzyme levels (ALT, AST, ALP, bilirubin) to evaluate liver function or potential liver disease.',
+  5500,
+  '1 day',
+  'blood',
+  NULL,
+  '[
+  {
+    "name": "alt",
+    "label": "ALT",
+    "unit": "U/L",
+    "referenceLow": 7,
+    "referenceHigh": 56,
+    "min": 0,
+    "max": 10000
+  },
+  {
+    "name": "ast",
+    "label": "AST",
+    "unit": "U/L",
+    "referenceLow": 10,
+    "referenceHigh": 40,
+    "min": 0,
+    "max": 10000
+  },
+  {
+    "name": "alp",
+    "label": "Alkaline Phosphatase (ALP)",
+    "unit": "U/L",
+    "referenceLow": 44,
+    "referenceHigh": 147,
+    "min": 0,
+    "max": 5000
+  },
+  {
+    "name": "bilirubin",
+    "label": "Total Bilirubin",
+    "unit": "mg/dL",
+    "referenceLow": 0.1,
+    "referenceHigh": 1.2,
+    "min": 0,
+    "max": 50,
+    "step": 0.1
+  },
+  {
+    "name": "albumin",
+    "label": "Albumin",
+    "unit": "g/dL",
+    "referenceLow": 3.5,
+    "referenceHigh": 5,
+    "min": 0.5,
+    "max": 7,
+    "step": 0.1,
+    "optional": true
+  }
+]'::jsonb,
+  4
+),
+(
+  'parkinsons_screening',
+  'Parkinson’s Screening Test',
+  'Analyzes neurological and voice metrics (jitter, shimmer, pitch) for early signs of Parkinson’s disease.',
+  12000,
+  '2–3 days',
+  'neurology',
+  NULL,
+  '[
+  {
+    "name": "fo",
+    "label": "Average Vocal Pitch (Fo)",
+    "unit": "Hz",
+    "referenceLow": 85,
+    "referenceHigh": 255,
+    "min": 50,
+    "max": 400,
+    "step": 0.1
+  },
+  {
+    "name": "jitter",
+    "label": "Jitter",
+    "unit": "%",
+    "referenceHigh": 1.04,
+    "min": 0,
+    "max": 20,
+    "step": 0.001
+  },
+  {
+    "name": "shimmer",
+    "label": "Shimmer",
+    "unit": "%",
+    "referenceHigh": 3.81,
+    "min": 0,
+    "max": 50,
+    "step": 0.01
+  },
+  {
+    "name": "nhr",
+    "label": "Noise-to-Harmonics Ratio (NHR)",
+    "unit": "ratio",
+    "referenceHigh": 0.19,
+    "min": 0,
+    "max": 2,
+    "step": 0.001
+  }
+]'::jsonb,
+  5
+)
+ON CONFLICT (id) DO NOTHING;
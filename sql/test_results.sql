@@ -0,0 +1,5 @@
+-- Store ML prediction results on the tests row
+-- result: { model, modelVersion, inputs, prediction, probability, predictedAt }
+ALTER TABLE tests
+ADD COLUMN IF NOT EXISTS result JSONB,
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
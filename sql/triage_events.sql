@@ -0,0 +1,16 @@
+-- Emergency triage escalations raised by /api/chat before reaching the AI worker
+CREATE TABLE IF NOT EXISTS triage_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id TEXT REFERENCES users(clerk_user_id) ON DELETE SET NULL,
+    conversation_id UUID REFERENCES chat_conversations(id) ON DELETE SET NULL,
+    category TEXT NOT NULL,
+    message TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_triage_events_created_at ON triage_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_triage_events_user_id ON triage_events(user_id);
+
+-- Only the service role (server) reads and writes triage events
+ALTER TABLE triage_events ENABLE ROW LEVEL SECURITY;
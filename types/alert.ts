@@ -0,0 +1,38 @@
+/**
+ * Type definitions for abnormal result alerts
+ *
+ * Raised by lib/alerts.ts when a stored prediction or lab result breaks an
+ * alert rule, stored in test_alerts and shown on the /doctor dashboard until
+ * a clinician acknowledges them.
+ */
+
+/**
+ * How urgently a clinician should look at the result
+ */
+export type AlertSeverity = "warning" | "critical";
+
+/**
+ * One broken rule, before it is stored
+ */
+export type AlertFinding = {
+  rule: string; // Rule id (e.g., 'high_risk_prediction')
+  severity: AlertSeverity;
+  message: string; // One line for the patient email and the dashboard
+  details: Record<string, unknown>; // The values that triggered the rule
+};
+
+/**
+ * A stored alert as listed on the doctor dashboard
+ */
+export type TestAlert = AlertFinding & {
+  id: string;
+  userId: string;
+  diagnosticId: string;
+  testId: string; // tests row id
+  testName: string;
+  patientName: string | null;
+  patientNotifiedAt: string | null;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null; // Clerk user id of the clinician
+  createdAt: string;
+};
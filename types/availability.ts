@@ -0,0 +1,74 @@
+/**
+ * Type definitions for appointment availability
+ *
+ * Templates describe when a provider sees patients at a location; slots are
+ * generated from them by lib/availability.ts and served by
+ * /api/availability/slots to the scheduling calendars.
+ */
+
+/**
+ * A break within working hours, in the location's local time
+ */
+export type AvailabilityBreak = {
+  start: string; // HH:MM
+  end: string; // HH:MM
+};
+
+/**
+ * Weekly working hours for a provider at a location (one row per weekday)
+ */
+export type AvailabilityTemplate = {
+  providerId: string;
+  providerName: string;
+  location: string;
+  timezone: string; // IANA zone the times are in (e.g., 'America/New_York')
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  slotMinutes: number;
+  capacity: number; // Patients that can book the same slot
+  breaks: AvailabilityBreak[];
+};
+
+/**
+ * A day a provider (or every provider at a location) is closed
+ */
+export type AvailabilityClosure = {
+  providerId: string | null; // null closes the whole location
+  location: string;
+  date: string; // YYYY-MM-DD, local to the location
+  reason: string | null;
+};
+
+/**
+ * One bookable appointment slot
+ */
+export type AvailabilitySlot = {
+  start: string; // ISO timestamp
+  end: string; // ISO timestamp
+  date: string; // YYYY-MM-DD, local to the location
+  label: string; // Local start time for display (e.g., '09:30 AM')
+  timezone: string; // IANA zone of the location, for formatting the start
+  capacity: number;
+  remaining: number; // Places left; open slots have at least one
+  providerId: string;
+  providerName: string;
+  location: string;
+};
+
+/**
+ * Body of a 409 response when the requested slot cannot be booked
+ */
+export type SlotConflict = {
+  error: string;
+  code: string;
+  alternatives?: AvailabilitySlot[]; // Nearest open slots, when offered
+};
+
+/**
+ * Open slots for one local date
+ */
+export type AvailabilityDay = {
+  date: string; // YYYY-MM-DD
+  slots: AvailabilitySlot[];
+};
@@ -0,0 +1,151 @@
+import { StructuredSymptom } from "@/types/medical";
+import { PredictionResult } from "@/types/prediction";
+
+/**
+ * Type definitions for the AI chat workflow
+ *
+ * These types are shared between the /api/chat route and the Chat component
+ * so both sides agree on the shape of messages and worker responses.
+ */
+
+/**
+ * A single chat turn as sent to and from the AI worker
+ */
+export type ChatMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+/**
+ * What the AI worker wants the app to do next
+ * - test: recommend a test from the catalog (testId required)
+ * - doctor: send the patient to book a doctor appointment
+ * - none: just reply
+ */
+export const WORKER_RESPONSE_TYPES = ["test", "doctor", "none"] as const;
+export type WorkerResponseType = (typeof WORKER_RESPONSE_TYPES)[number];
+
+/**
+ * Final structured response produced by the AI worker
+ * Only available once the reply stream has completed
+ */
+export type WorkerResponse = {
+  type: WorkerResponseType;
+  testName?: string;
+  testId?: string;
+  reply: string;
+};
+
+/**
+ * Red-flag symptom categories detected by the server-side triage layer
+ */
+export type TriageCategory =
+  | "cardiac"
+  | "stroke"
+  | "suicidal_ideation"
+  | "breathing"
+  | "anaphylaxis"
+  | "severe_bleeding"
+  | "loss_of_consciousness"
+  | "overdose";
+
+/**
+ * Response produced by the triage layer instead of the AI worker when the
+ * user describes an emergency. The reply holds escalation instructions.
+ */
+export type EmergencyResponse = {
+  type: "emergency";
+  triageCategory: TriageCategory;
+  reply: string;
+};
+
+/**
+ * Final payload of a /api/chat stream
+ * Adds the id of the conversation the turn was persisted to, when the
+ * request was made on behalf of a signed-in user
+ */
+export type ChatResponse = (WorkerResponse | EmergencyResponse) & {
+  conversationId?: string;
+};
+
+/**
+ * Error codes returned by /api/chat, either as a JSON error response or in
+ * a stream error event, so the UI can explain what went wrong
+ */
+export type ChatErrorCode =
+  | "WORKER_UNAVAILABLE" // Worker unreachable or returned a non-2xx status
+  | "WORKER_INVALID_RESPONSE" // Worker payload is not a JSON object
+  | "WORKER_INVALID_TYPE" // type is not one of WORKER_RESPONSE_TYPES
+  | "WORKER_UNKNOWN_TEST" // type "test" without a testId from the catalog
+  | "WORKER_EMPTY_REPLY" // reply missing or blank
+  | "STREAM_FAILED"; // Stream broke off after it started
+
+/**
+ * Events emitted by the /api/chat server-sent event stream
+ * - token: incremental reply text to append to the assistant message
+ * - done: the complete ChatResponse, sent exactly once at the end
+ * - error: the stream failed; no done event will follow
+ */
+export type ChatStreamEvent =
+  | { event: "token"; data: { delta: string } }
+  | { event: "done"; data: ChatResponse }
+  | { event: "error"; data: { error: string; code: ChatErrorCode } };
+
+/**
+ * Patient history attached to worker requests when the user has consented
+ * to share it. Assembled server-side from the patient's record.
+ */
+export type PatientContext = {
+  age: number | null; // From date_of_birth, falling back to the stored age
+  gender: string | null;
+  conditions: string[];
+  medications: string[];
+  allergies: string[];
+  priorDiagnostics: {
+    symptom: string;
+    aiSummary: string | null;
+    testName: string | null;
+    createdAt: string;
+  }[];
+  completedTests: {
+    testId: string;
+    testName: string;
+    resultFile: string | null;
+    result: PredictionResult | null; // ML prediction, when the test was scored
+    completedAt: string;
+  }[];
+};
+
+/**
+ * Worker metadata persisted alongside assistant messages
+ */
+export type ChatMessageMetadata = {
+  type?: ChatResponse["type"];
+  testName?: string;
+  testId?: string;
+  triageCategory?: TriageCategory;
+  intake?: StructuredSymptom; // Guided intake answers behind a user message
+};
+
+/**
+ * A chat message as stored in the chat_messages table
+ */
+export type StoredChatMessage = ChatMessage & {
+  id: string;
+  conversationId: string;
+  metadata: ChatMessageMetadata | null;
+  createdAt: string;
+};
+
+/**
+ * Summary of a stored conversation thread for history listings
+ */
+export type ChatConversation = {
+  id: string;
+  title: string;
+  lastMessage: string | null;
+  diagnosticIds: string[]; // Diagnostics created from this thread
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
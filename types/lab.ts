@@ -0,0 +1,34 @@
+/**
+ * Type definitions for structured lab results
+ *
+ * Shared by /api/tests/[id]/lab-values, which stores them on the tests row
+ * (tests.lab_values), and the diagnostic page's generated lab forms.
+ */
+
+/**
+ * Where a value falls against its reference range
+ */
+export type LabValueFlag = "low" | "normal" | "high";
+
+/**
+ * One measured value, with the unit and reference range it was judged
+ * against at the time
+ */
+export type LabValue = {
+  analyte: string; // Analyte name from the test's schema (e.g., 'creatinine')
+  label: string;
+  value: number;
+  unit: string;
+  referenceLow?: number;
+  referenceHigh?: number;
+  flag: LabValueFlag;
+};
+
+/**
+ * Structured results as stored in tests.lab_values
+ */
+export type LabResult = {
+  testId: string; // Catalog test id
+  values: LabValue[]; // In schema order; optional analytes left blank are omitted
+  recordedAt: string;
+};
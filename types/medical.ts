@@ -51,7 +51,8 @@ export type TestSelection = {
  */
 export type AppointmentInput = {
   preferredDate: string;          // ISO date string (YYYY-MM-DD)
-  timeSlot: string;              // Preferred time slot (e.g., 'morning', 'afternoon')
+  timeSlot: string;              // Selected slot start (ISO timestamp from /api/availability/slots)
+  providerId?: string;           // Provider of the selected slot
   notes: string;                 // Additional appointment notes
 }
 
@@ -65,4 +66,17 @@ export type DiagnosticPayload = {
   appointmentInput: AppointmentInput;
   userSymptom: string;
   aiSummary: string;
-}
\ No newline at end of file
+}
+/**
+ * Structured symptom description captured by the guided intake in Chat
+ * Sent to the AI worker alongside the messages and stored on the
+ * resulting diagnostic record (diagnostics.symptom_details)
+ */
+export type StructuredSymptom = {
+  complaint: string;              // Main symptom in the patient's words
+  onset: 'sudden' | 'gradual';    // How the symptom started
+  duration: string;               // How long it has lasted (e.g., '3 days')
+  severity: number;               // Patient-rated severity from 1 to 10
+  location: string;               // Where on the body, if applicable
+  associatedSymptoms: string[];   // Other symptoms noticed alongside it
+}
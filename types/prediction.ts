@@ -0,0 +1,119 @@
+/**
+ * Type definitions for ML prediction results
+ *
+ * Shared by the /api/predict/[model] gateway, which stores results on the
+ * tests row, and the diagnostic page, which shows them when reopened.
+ */
+
+/**
+ * Where a prediction came from: the FastAPI ML backend, or the built-in
+ * fallback scorer used while the backend is unavailable
+ */
+export type PredictionSource = "ml" | "fallback";
+
+/**
+ * A prediction as stored in tests.result
+ */
+export type PredictionResult = {
+  model: string; // Registry model id (e.g., 'diabetes')
+  modelVersion: string;
+  source: PredictionSource;
+  inputs: Record<string, unknown>; // Raw inputs as entered by the user
+  prediction: number; // 1 = positive, 0 = negative
+  probability: number;
+  contributions: FeatureContribution[]; // Ranked, largest impact first
+  predictedAt: string;
+};
+
+/**
+ * How much one input pushed the predicted risk up or down compared with a
+ * healthy reference value
+ */
+export type FeatureContribution = {
+  feature: string;
+  label: string;
+  value: unknown; // As entered
+  reference: string; // Healthy reference value, formatted for display
+  impact: number; // Log-odds change; > 0 raises risk, < 0 lowers it
+  share: number; // Fraction of the total absolute impact (0-1)
+};
+
+/**
+ * A validation error tied to a single input field, so forms can show it
+ * next to the offending input
+ */
+export type FieldError = {
+  field: string;
+  message: string;
+};
+
+/**
+ * One row of a batch prediction. Rows are scored independently, so a batch
+ * can mix scored, invalid and failed rows.
+ */
+export type BatchPredictionRow = {
+  row: number; // 1-based position in the submitted rows
+  id?: string; // Caller's row reference (e.g., a patient id), echoed back
+  status: "scored" | "invalid" | "failed";
+  result?: PredictionResult;
+  fieldErrors?: FieldError[];
+  error?: string;
+};
+
+export type BatchPredictionSummary = {
+  total: number;
+  scored: number;
+  invalid: number;
+  failed: number;
+  positive: number; // Scored rows predicted positive
+  fallback: number; // Scored rows from the fallback scorer
+};
+
+/**
+ * One screening in a patient's risk trend for a model, oldest first
+ */
+export type RiskTrendPoint = {
+  testId: string; // tests row id
+  diagnosticId: string;
+  predictedAt: string;
+  probability: number;
+  prediction: number;
+  modelVersion: string;
+  source: PredictionSource;
+  inputs: Record<string, unknown>; // Key inputs (the model's trendFeatures)
+  change: number | null; // Probability change since the previous screening
+};
+
+/**
+ * Direction of the latest change in risk; changes smaller than the
+ * significance threshold count as stable
+ */
+export type RiskTrendDirection = "rising" | "falling" | "stable";
+
+/**
+ * A patient's stored predictions for one model over time
+ */
+export type RiskTrend = {
+  model: string;
+  features: { name: string; label: string; unit?: string }[]; // Key inputs
+  points: RiskTrendPoint[];
+  direction: RiskTrendDirection | null; // Null with fewer than 2 screenings
+};
+
+/**
+ * A suggested value for an ML test form field and where it came from
+ */
+export type PrefillValue = {
+  value: unknown;
+  source: "profile" | "previous"; // Patient profile, or the last screening
+  detail: string; // Provenance shown under the field
+  recordedAt?: string; // When a previous value was entered
+};
+
+/**
+ * Suggested form values for a model, keyed by feature name
+ */
+export type PredictionPrefill = {
+  model: string;
+  fields: Record<string, PrefillValue>;
+};
@@ -31,6 +31,7 @@ export interface Database {
                     created_at?: string
                     updated_at?: string
                 }
+                Relationships: []
             }
             user_medical_info: {
                 Row: {
@@ -72,6 +73,7 @@ export interface Database {
                     created_at?: string
                     updated_at?: string
                 }
+                Relationships: []
             }
             diagnostics: {
                 Row: {
@@ -95,6 +97,7 @@ export interface Database {
                     result?: Json | null
                     created_at?: string
                 }
+                Relationships: []
             }
             appointments: {
                 Row: {
@@ -124,6 +127,7 @@ export interface Database {
                     status?: string
                     created_at?: string
                 }
+                Relationships: []
             }
             chat_messages: {
                 Row: {
@@ -147,6 +151,34 @@ export interface Database {
                     is_bot?: boolean
                     created_at?: string
                 }
+                Relationships: []
+            }
+            triage_events: {
+                Row: {
+                    id: string
+                    user_id: string | null
+                    conversation_id: string | null
+                    category: string
+                    message: string
+                    created_at: string
+                }
+                Insert: {
+                    id?: string
+                    user_id?: string | null
+                    conversation_id?: string | null
+                    category: string
+                    message: string
+                    created_at?: string
+                }
+                Update: {
+                    id?: string
+                    user_id?: string | null
+                    conversation_id?: string | null
+                    category?: string
+                    message?: string
+                    created_at?: string
+                }
+                Relationships: []
             }
         }
         Views: {